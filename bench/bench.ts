@@ -0,0 +1,73 @@
+import { FilesystemExt, MemoryFs, Path } from "../mod.ts";
+
+const DEPTH = 1000;
+const WIDTH = 10000;
+
+const data = new TextEncoder().encode("Hello, world!");
+
+// A single chain of DEPTH nested directories, with a data file at the bottom.
+const deepComponents: string[] = [];
+for (let i = 0; i < DEPTH; i++) {
+  deepComponents.push(`dir${i}`);
+}
+const deepFile = Path.absolute([...deepComponents, "file"]);
+
+const deepFs = new MemoryFs();
+deepFs.writeSync(deepFile, data);
+
+// A single directory containing WIDTH data files.
+const wideFs = new MemoryFs();
+for (let i = 0; i < WIDTH; i++) {
+  wideFs.writeSync(Path.absolute(["wide", `file${i}`]), data);
+}
+const wideFile = Path.absolute(["wide", `file${WIDTH / 2}`]);
+
+Deno.bench("stat deep file", { group: "deep" }, () => {
+  deepFs.statSync(deepFile);
+});
+
+Deno.bench("read deep file", { group: "deep" }, () => {
+  deepFs.readSync(deepFile);
+});
+
+Deno.bench("overwrite deep file", { group: "deep" }, () => {
+  deepFs.writeSync(deepFile, data, "assertive");
+});
+
+Deno.bench("write deep file after snapshot", { group: "deep" }, () => {
+  deepFs.snapshot();
+  deepFs.writeSync(deepFile, data, "assertive");
+});
+
+Deno.bench("create deep file from scratch", { group: "deep" }, () => {
+  new MemoryFs().writeSync(deepFile, data);
+});
+
+Deno.bench("walk deep tree", { group: "deep" }, () => {
+  for (const _ of new FilesystemExt(deepFs).walkSync("/")) {
+    // Only visiting.
+  }
+});
+
+Deno.bench("stat wide file", { group: "wide" }, () => {
+  wideFs.statSync(wideFile);
+});
+
+Deno.bench("overwrite wide file", { group: "wide" }, () => {
+  wideFs.writeSync(wideFile, data, "assertive");
+});
+
+Deno.bench("write wide file after snapshot", { group: "wide" }, () => {
+  wideFs.snapshot();
+  wideFs.writeSync(wideFile, data, "assertive");
+});
+
+Deno.bench("ls wide directory", { group: "wide" }, () => {
+  wideFs.lsSync("/wide");
+});
+
+Deno.bench("copy and move wide directory", { group: "wide" }, () => {
+  wideFs.copySync("/wide", "/wide2");
+  wideFs.moveSync("/wide2", "/wide3");
+  wideFs.removeSync("/wide3");
+});
@@ -1,10 +1,12 @@
 /**
  * A simple, platform-agnostic interface for file systems: paths, files and directories, and that is it. No symlinks, no hardlinks, no metadata, no locking. Intended to be backed by implementations for different typescript runtimes and/or platforms (or runtime-agnostic in-memory backends for non-persistent use-cases).
  *
- * The exact functionality of simple file systems is defined in the {@linkcode SimpleFilesystem} interface. We provide only a simple in-memory implementation of that interface — the {@linkcode MemoryFs}. Persistent, platform-specific implementations must be imported from other packages, such as [simple-fs-deno](https://jsr.io/@wormblossom/simple-fs-deno) for Deno.
+ * The exact functionality of simple file systems is defined in the {@linkcode SimpleFilesystem} interface. We provide only a simple in-memory implementation of that interface — the {@linkcode MemoryFs} — and implementations which wrap other implementations, such as the {@linkcode OverlayFs} and the {@linkcode MountFs}. Persistent, platform-specific implementations must be imported from other packages, such as [simple-fs-deno](https://jsr.io/@wormblossom/simple-fs-deno) for Deno.
  *
  * The {@linkcode Path} class describes paths in the simple fs. See the {@linkcode Pathish} type for working not only with {@linkcode Path | Paths} but also with strings which can be {@linkcode parsePath | parsed} into paths.
  *
+ * The {@linkcode Glob} class describes patterns for selecting paths, see {@linkcode parseGlob} for the pattern syntax.
+ *
  * @module
  */
 
@@ -32,9 +34,13 @@ export class Path {
   private readonly components: string[];
 
   /** @ignore */
-  private constructor(relativity: number, components: string[]) {
+  private constructor(
+    relativity: number,
+    components: string[],
+    policy: ComponentPolicy = "minimal",
+  ) {
     for (const component of components) {
-      if (!Path.isComponent(component)) {
+      if (!Path.isComponent(component, policy)) {
         throw `Invalid component: ${component}`;
       }
     }
@@ -44,21 +50,28 @@ export class Path {
   }
 
   /**
-   * Create a relative path consisting of the given {@link Path.isComponent | components}. The `parentSteps` must be a natural number, it indicates how many `..`s there are (conceptually) at the start of the path.
+   * Create a relative path consisting of the given {@link Path.isComponent | components}. The `parentSteps` must be a natural number, it indicates how many `..`s there are (conceptually) at the start of the path. Throws if any component violates the given {@linkcode ComponentPolicy}.
    */
-  public static relative(components: string[], parentSteps = 0): Path {
+  public static relative(
+    components: string[],
+    parentSteps = 0,
+    policy: ComponentPolicy = "minimal",
+  ): Path {
     if (Number.isInteger(parentSteps) && parentSteps >= 0) {
-      return new Path(parentSteps, components);
+      return new Path(parentSteps, components, policy);
     } else {
       throw "Invalid relativity for a relative path";
     }
   }
 
   /**
-   * Creates an absolute path consisting of the given {@link Path.isComponent | components}.
+   * Creates an absolute path consisting of the given {@link Path.isComponent | components}. Throws if any component violates the given {@linkcode ComponentPolicy}.
    */
-  public static absolute(components: string[]): Path {
-    return new Path(-1, components);
+  public static absolute(
+    components: string[],
+    policy: ComponentPolicy = "minimal",
+  ): Path {
+    return new Path(-1, components, policy);
   }
 
   /**
@@ -107,10 +120,23 @@ export class Path {
   /**
    * Returns whether a given string would be a valid path component.
    *
-   * A valid componenent must not contain any `/`, and must not be equal to any of `".."`, `"."`, or `""`.
+   * A valid componenent must not contain any `/`, and must not be equal to any of `".."`, `"."`, or `""`. Additionally, it must satisfy the given {@linkcode ComponentPolicy} (which, by default, imposes no further restrictions).
    */
-  public static isComponent(s: string): boolean {
-    return !s.includes("/") && s !== "" && s !== "." && s !== "..";
+  public static isComponent(
+    s: string,
+    policy: ComponentPolicy = "minimal",
+  ): boolean {
+    if (s.includes("/") || s === "" || s === "." || s === "..") {
+      return false;
+    }
+
+    if (policy === "minimal") {
+      return true;
+    } else if (policy === "portable") {
+      return isPortableComponent(s);
+    } else {
+      return policy(s);
+    }
   }
 
   /**
@@ -194,6 +220,56 @@ export class Path {
     return true;
   }
 
+  /**
+   * Compares this path to another path in the canonical total order on paths: returns a negative number if `this` is less than `other`, zero if they are {@link Path.prototype.equals | equal}, and a positive number otherwise.
+   *
+   * Absolute paths are less than relative paths, and relative paths with fewer {@link Path.prototype.getParentSteps | parent steps} are less than those with more. Paths of the same relativity are compared lexicographically by their {@link Path.isComponent | components} (which are compared by their utf16 code units), so every path is less than all paths it {@link Path.prototype.prefixes | prefixes}.
+   */
+  public compare(other: Pathish): number {
+    const other_ = Path.fromPathish(other);
+
+    if (this.relativity !== other_.relativity) {
+      // Absolute paths have a relativity of -1, so they come first.
+      return this.relativity < other_.relativity ? -1 : 1;
+    }
+
+    const sharedLength = Math.min(
+      this.components.length,
+      other_.components.length,
+    );
+
+    for (let i = 0; i < sharedLength; i++) {
+      if (this.components[i] !== other_.components[i]) {
+        return this.components[i] < other_.components[i] ? -1 : 1;
+      }
+    }
+
+    return this.components.length - other_.components.length;
+  }
+
+  /**
+   * Compares two paths in the canonical total order on paths, see {@linkcode Path.prototype.compare | Path.compare}. Can be passed to `Array.prototype.sort` directly.
+   */
+  public static compare(a: Pathish, b: Pathish): number {
+    return Path.fromPathish(a).compare(b);
+  }
+
+  /**
+   * Returns a hash of this path: an unsigned 32 bit integer such that {@link Path.prototype.equals | equal} paths have equal hashes. The hash is stable, i.e., it does not change between program runs or platforms.
+   *
+   * The hash is the 32 bit FNV-1a hash of the utf8 encoding of the {@link Path.prototype.toString | string rendering} of the path.
+   */
+  public hash(): number {
+    let hash = 0x811c9dc5;
+
+    for (const byte of new TextEncoder().encode(this.toString())) {
+      hash ^= byte;
+      hash = Math.imul(hash, 0x01000193);
+    }
+
+    return hash >>> 0;
+  }
+
   /**
    * Returns whether `this` is a prefix of `other`, i.e., if the {@link Path.isComponent | components} of `this` are a prefix of the {@link Path.isComponent | components} of `other` **and** both have the same number of {@link Path.prototype.getParentSteps | parent steps}, and either both are relative or both are absolute.
    */
@@ -273,6 +349,82 @@ export class Path {
     }
   }
 
+  /**
+   * Resolves an untrusted relative path against a `base` path, guaranteeing that the result is {@link Path.prototype.isPrefixedBy | prefixed by} `base` (i.e., it addresses `base` itself or something inside it). Unlike {@linkcode Path.prototype.concat | concat}, this never lets `..` steps lead out of `base`: `..` steps which cancel out within the untrusted path (as in `foo/../bar`) are fine, but any path that would end up outside `base` is rejected.
+   *
+   * Throws a {@linkcode PathEscapeError} if `untrusted` is absolute, or if the resolved path would not lie inside `base`. Throws a {@linkcode ParseSimpleFsPathError} if `untrusted` is a string which cannot be parsed.
+   */
+  public static resolveWithin(base: Pathish, untrusted: Pathish): Path {
+    const base_ = Path.fromPathish(base);
+    const untrusted_ = Path.fromPathish(untrusted);
+
+    if (untrusted_.isAbsolute()) {
+      throw new PathEscapeError(
+        "Untrusted paths must be relative, but got an absolute path.",
+        base_,
+        untrusted_,
+      );
+    }
+
+    // Paths are normalised, so an untrusted path stays inside the base iff it does not start with any `..` steps.
+    if (untrusted_.getParentSteps() > 0) {
+      throw new PathEscapeError(
+        "The untrusted path would lead outside of the base path.",
+        base_,
+        untrusted_,
+      );
+    }
+
+    return base_.concat(untrusted_);
+  }
+
+  /**
+   * Computes the relative path which leads from `base` to `this`, i.e., the inverse of {@linkcode Path.prototype.concat | concat}: `base.concat(this.relativeTo(base))` is {@linkcode Path.prototype.equals | equal} to `this`. The result starts with as many {@link Path.prototype.getParentSteps | parent steps} as are needed to get from `base` to the longest common prefix of both paths.
+   *
+   * If one of the paths is absolute and the other one is relative, this method throws a {@linkcode RelativePathError}. If both are relative and `base` has more {@link Path.prototype.getParentSteps | parent steps} than `this`, there is no way to describe `this` relative to `base` (we do not know the names of the directories `base` steps out of), so this method also throws a {@linkcode RelativePathError}.
+   */
+  public relativeTo(base: Pathish): Path {
+    const base_ = Path.fromPathish(base);
+
+    if (this.isAbsolute() !== base_.isAbsolute()) {
+      throw new RelativePathError(
+        "Cannot compute a relative path between an absolute and a relative path.",
+        base_,
+        this,
+      );
+    }
+
+    if (this.relativity < base_.relativity) {
+      throw new RelativePathError(
+        "Cannot compute a relative path from a base with more `..` components than the target.",
+        base_,
+        this,
+      );
+    }
+
+    if (this.relativity > base_.relativity) {
+      return Path.relative(
+        [...this.components],
+        base_.components.length + this.relativity - base_.relativity,
+      );
+    }
+
+    let commonPrefixLength = 0;
+    while (
+      commonPrefixLength < this.components.length &&
+      commonPrefixLength < base_.components.length &&
+      this.components[commonPrefixLength] ===
+        base_.components[commonPrefixLength]
+    ) {
+      commonPrefixLength += 1;
+    }
+
+    return Path.relative(
+      this.components.slice(commonPrefixLength),
+      base_.components.length - commonPrefixLength,
+    );
+  }
+
   /**
    * Converts `this` into a string, such that {@link parsePath | parsing} that string would yield back the origina path (well, an {@linkcode Path.prototype.equal | equal} one).
    *
@@ -326,6 +478,149 @@ export class Path {
     const rendered = this.toString();
     return rendered.replaceAll("/", SEPARATOR);
   }
+
+  /**
+   * Converts this path into a `file://` URL, percent-encoding every {@link Path.isComponent | component}. Throws a {@linkcode FileUrlError} if this path is relative (URLs cannot express relative file paths), or if a component is not well-formed unicode.
+   */
+  toFileUrl(): URL {
+    if (this.isRelative()) {
+      throw new FileUrlError(
+        "Only absolute paths can be converted into file URLs.",
+        this,
+      );
+    }
+
+    let pathname = "";
+    for (const component of this.components) {
+      if (!component.isWellFormed()) {
+        throw new FileUrlError(
+          `Cannot percent-encode a path component which is not well-formed unicode: ${component}`,
+          this,
+        );
+      }
+
+      pathname = `${pathname}/${encodeURIComponent(component)}`;
+    }
+
+    return new URL(`file://${pathname === "" ? "/" : pathname}`);
+  }
+
+  /**
+   * Converts a `file://` URL (or a string which can be parsed into one) into an absolute path, percent-decoding all components. A single trailing slash is ignored.
+   *
+   * Throws a {@linkcode FileUrlError} if the URL does not use the `file:` scheme, has a host other than `localhost`, or if some percent-decoded component is not a valid {@link Path.isComponent | component} (for example, because it contained an encoded `/`).
+   */
+  static fromFileUrl(url: URL | string): Path {
+    let url_: URL;
+    try {
+      url_ = new URL(url);
+    } catch {
+      throw new FileUrlError("Not a valid URL.", `${url}`);
+    }
+
+    if (url_.protocol !== "file:") {
+      throw new FileUrlError(
+        "Only URLs with the `file:` scheme can be converted into paths.",
+        url_.href,
+      );
+    }
+
+    if (url_.host !== "" && url_.host !== "localhost") {
+      throw new FileUrlError(
+        "Only file URLs without a host (or with host `localhost`) can be converted into paths.",
+        url_.href,
+      );
+    }
+
+    const segments = url_.pathname.split("/");
+    // The pathname always starts with a slash.
+    segments.shift();
+    if (segments[segments.length - 1] === "") {
+      segments.pop();
+    }
+
+    const components: string[] = [];
+    for (const segment of segments) {
+      let component: string;
+      try {
+        component = decodeURIComponent(segment);
+      } catch {
+        throw new FileUrlError(
+          `Invalid percent-encoding in a URL path segment: ${segment}`,
+          url_.href,
+        );
+      }
+
+      if (!Path.isComponent(component)) {
+        throw new FileUrlError(
+          `A URL path segment does not decode to a valid path component: ${segment}`,
+          url_.href,
+        );
+      }
+
+      components.push(component);
+    }
+
+    return Path.absolute(components);
+  }
+}
+
+/**
+ * The type of errors thrown by {@linkcode Path.prototype.toFileUrl | Path.toFileUrl} and {@linkcode Path.fromFileUrl}. The `name` property of such an error is always `"FileUrlError"`.
+ */
+export class FileUrlError extends Error {
+  /**
+   * The path which could not be converted into a URL, or the URL which could not be converted into a path.
+   */
+  subject: Path | string;
+
+  constructor(message: string, subject: Path | string) {
+    super(message);
+    Object.setPrototypeOf(this, FileUrlError.prototype);
+    this.name = "FileUrlError";
+    this.subject = subject;
+  }
+}
+
+/**
+ * Determines which strings are valid {@link Path.isComponent | path components}, beyond the minimal requirements which every component must satisfy.
+ *
+ * - `"minimal"`: no further requirements.
+ * - `"portable"`: rejects components which are not valid file names on all common platforms: names containing any of `<>:"\\|?*` or control characters, names ending in a dot or a space, names longer than 255 bytes in utf8, and the reserved Windows device names (`CON`, `PRN`, `AUX`, `NUL`, `COM1` to `COM9`, `LPT1` to `LPT9`, case-insensitively and with or without an extension). A {@linkcode MemoryFs} with this policy additionally rejects creating a file whose name differs only in case (or unicode normalisation) from an existing sibling.
+ * - A function: a custom predicate, components for which it returns `false` are rejected.
+ */
+export type ComponentPolicy =
+  | "minimal"
+  | "portable"
+  | ((component: string) => boolean);
+
+const WINDOWS_RESERVED_NAME = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+const NON_PORTABLE_CHARACTER = /[<>:"\\|?*]/;
+
+function isPortableComponent(s: string): boolean {
+  return !NON_PORTABLE_CHARACTER.test(s) &&
+    !hasControlCharacter(s) &&
+    !s.endsWith(".") &&
+    !s.endsWith(" ") &&
+    !WINDOWS_RESERVED_NAME.test(s) &&
+    new TextEncoder().encode(s).length <= 255;
+}
+
+function hasControlCharacter(s: string): boolean {
+  for (let i = 0; i < s.length; i++) {
+    const code = s.charCodeAt(i);
+
+    if (code < 0x20 || code === 0x7f) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+// Two components collide on case-insensitive (or normalisation-insensitive) filesystems iff their folded forms are equal.
+function foldComponent(s: string): string {
+  return s.normalize("NFC").toLowerCase();
 }
 
 /**
@@ -350,14 +645,64 @@ export class ConcatPathError extends Error {
   }
 }
 
+/**
+ * The type of errors thrown by {@linkcode Path.resolveWithin}. The `name` property of such an error is always `"PathEscapeError"`.
+ */
+export class PathEscapeError extends Error {
+  /**
+   * The path inside of which the untrusted path was to be resolved.
+   */
+  base: Path;
+  /**
+   * The untrusted path which would have escaped the `base`.
+   */
+  untrusted: Path;
+
+  constructor(message: string, base: Path, untrusted: Path) {
+    super(message);
+    Object.setPrototypeOf(this, PathEscapeError.prototype);
+    this.name = "PathEscapeError";
+    this.base = base;
+    this.untrusted = untrusted;
+  }
+}
+
+/**
+ * The type of errors thrown by {@linkcode Path.prototype.relativeTo | Path.relativeTo}. The `name` property of such an error is always `"RelativePathError"`.
+ */
+export class RelativePathError extends Error {
+  /**
+   * The path from which the relative path was to be computed.
+   */
+  base: Path;
+  /**
+   * The path to which the relative path was to lead.
+   */
+  target: Path;
+
+  constructor(message: string, base: Path, target: Path) {
+    super(message);
+    Object.setPrototypeOf(this, RelativePathError.prototype);
+    this.name = "RelativePathError";
+    this.base = base;
+    this.target = target;
+  }
+}
+
 /**
  * Parses a string into a {@linkcode Path}. Uses `/` as the component separator.
  *
  * Absolute paths start with `/`, relative paths start with zero or more `..` components, or with a single `.` component. Internal `..` components are resolved as expected (they effectively annihilate the preceding "real" component; going "above" the root in an absolute path yields an error), and internal `.` components are ignored (as expected). Path components may not contain `/`, and may not be the empty string.
  *
+ * By default, parsing is strict: successive slashes and trailing slashes are rejected. Setting `options.lenient` to `true` accepts them instead, see {@linkcode normalizePath} for the details (and for learning which normalisations were performed). The components of the resulting path must satisfy `options.componentPolicy` (see {@linkcode ComponentPolicy}).
+ *
  * Throws a {@linkcode ParseSimpleFsPathError} when receiving an argument that cannot be parsed.
  */
-export function parsePath(str: string): Path {
+export function parsePath(str: string, options: ParsePathOptions = {}): Path {
+  if (options.lenient) {
+    return normalizePath(str, options).path;
+  }
+
   if (str.length === 0) {
     throw new ParseSimpleFsPathError(
       "The empty string cannot be parsed into a Path. Perhaps you need `.` or `/`?",
@@ -369,6 +714,7 @@ export function parsePath(str: string): Path {
     return Path.absolute([]);
   }
 
+  const policy = options.componentPolicy ?? "minimal";
   const isAbsolute = str.startsWith("/");
   let parentSteps = 0;
 
@@ -406,6 +752,15 @@ export function parsePath(str: string): Path {
     }
   }
 
+  for (const component of components) {
+    if (!Path.isComponent(component, policy)) {
+      throw new ParseSimpleFsPathError(
+        `The path component ${component} is not allowed by the component policy.`,
+        str,
+      );
+    }
+  }
+
   if (isAbsolute) {
     return Path.absolute(components);
   } else {
@@ -413,6 +768,113 @@ export function parsePath(str: string): Path {
   }
 }
 
+/**
+ * Options for {@linkcode parsePath}.
+ *
+ * - `lenient`: whether to collapse successive slashes and to accept trailing slashes instead of rejecting them. Defaults to `false`.
+ * - `trimWhitespace`: whether to ignore leading and trailing whitespace. Only takes effect if `lenient` is `true`. Defaults to `false`.
+ * - `componentPolicy`: the {@linkcode ComponentPolicy} which all components of the resulting path must satisfy. Defaults to `"minimal"`.
+ */
+export type ParsePathOptions = {
+  lenient?: boolean;
+  trimWhitespace?: boolean;
+  componentPolicy?: ComponentPolicy;
+};
+
+/**
+ * A normalisation performed by {@linkcode normalizePath}.
+ *
+ * - `"whitespace"`: leading or trailing whitespace was removed.
+ * - `"repeated slashes"`: successive slashes were collapsed into a single one.
+ * - `"trailing slash"`: a trailing slash was removed.
+ */
+export type PathNormalisation =
+  | "whitespace"
+  | "repeated slashes"
+  | "trailing slash";
+
+/**
+ * Leniently parses a string into a {@linkcode Path}, and reports which normalisations were necessary to do so.
+ *
+ * First removes leading and trailing whitespace (if `options.trimWhitespace` is `true`), then collapses successive slashes into single slashes, then removes a trailing slash (unless the string is exactly `/`), and finally parses the result with {@linkcode parsePath} (using `options.componentPolicy`).
+ *
+ * Throws a {@linkcode ParseSimpleFsPathError} when receiving an argument that cannot be parsed even after normalisation.
+ */
+export function normalizePath(
+  str: string,
+  options: { trimWhitespace?: boolean; componentPolicy?: ComponentPolicy } = {},
+): { path: Path; normalisations: PathNormalisation[] } {
+  const normalisations: PathNormalisation[] = [];
+  let normalised = str;
+
+  if (options.trimWhitespace) {
+    const trimmed = normalised.trim();
+
+    if (trimmed !== normalised) {
+      normalisations.push("whitespace");
+      normalised = trimmed;
+    }
+  }
+
+  const collapsed = normalised.replace(/\/{2,}/g, "/");
+  if (collapsed !== normalised) {
+    normalisations.push("repeated slashes");
+    normalised = collapsed;
+  }
+
+  if (normalised.length > 1 && normalised.endsWith("/")) {
+    normalisations.push("trailing slash");
+    normalised = normalised.slice(0, -1);
+  }
+
+  try {
+    return {
+      path: parsePath(normalised, { componentPolicy: options.componentPolicy }),
+      normalisations,
+    };
+  } catch (err) {
+    if (err instanceof ParseSimpleFsPathError) {
+      throw new ParseSimpleFsPathError(err.message, str);
+    } else {
+      throw err;
+    }
+  }
+}
+
+/**
+ * Parses a platform-native path string (as rendered by {@linkcode Path.prototype.toNativeString | Path.toNativeString}, for example) into a {@linkcode Path}.
+ *
+ * Both `/` and the platform-native {@linkcode SEPARATOR} are accepted as component separators. Setting `options.backslashSeparators` to `true` (or `false`) makes `\` a component separator (or a regular character) regardless of the platform; it defaults to whether `\` is the native separator. Paths with a drive letter (such as `C:\foo`) are rejected, all other strings are normalised exactly like {@linkcode parsePath} does.
+ *
+ * Throws a {@linkcode ParseSimpleFsPathError} when receiving an argument that cannot be parsed.
+ */
+export function parseNativePath(
+  str: string,
+  options: { backslashSeparators?: boolean } = {},
+): Path {
+  const backslashSeparators = options.backslashSeparators ??
+    SEPARATOR === "\\";
+
+  if (backslashSeparators && /^[a-zA-Z]:/.test(str)) {
+    throw new ParseSimpleFsPathError(
+      "Native paths with a drive letter cannot be parsed into a Path.",
+      str,
+    );
+  }
+
+  const normalised = backslashSeparators ? str.replaceAll("\\", "/") : str;
+
+  try {
+    return parsePath(normalised);
+  } catch (err) {
+    if (err instanceof ParseSimpleFsPathError) {
+      throw new ParseSimpleFsPathError(err.message, str);
+    } else {
+      throw err;
+    }
+  }
+}
+
 /**
  * The type of errors thrown by {@linkcode parsePath}. The `name` property of such an error is always `"ParseSimpleFsPathError"`.
  */
@@ -428,409 +890,4197 @@ export class ParseSimpleFsPathError extends Error {
 }
 
 /**
- * Describes how a file operation should operate when it would conflict with existing files.
- *
- * All implementors of the {@linkcode SimpleFilesystem} and {@linkcode SimpleFilesystemExt} interfaces must have all operations default to `"timid"`.
- *
- * - `"timid"`: throw an error.
- * - `"placid"`: leave the file system unchanged, but do noth throw an error.
- * - `"assertive"`: overwrite whatever was there before.
+ * A compiled glob pattern, obtained via {@linkcode parseGlob}. Globs match {@linkcode Path | Paths} component by component, never raw strings.
  */
-export type Mode = "timid" | "placid" | "assertive";
+export class Glob {
+  /** @ignore */
+  private readonly pattern: string;
+  /** @ignore */
+  private readonly alternatives: GlobAlternative[];
 
-/**
- * A simple filesystem.
- *
- * Conceptually, a filesystem is the pair of some root *directory* and a dedicated position therein, called the *current working directory*. This interface describes the operations by which such a filesystem can be manipulated.
- *
- * A *directory* is a mapping from {@link Path.isComponent | path components} to directories and/or data files.
- *
- * All operations that take paths as arguments apply the path to the current working directory to determine where to operate. If applying the path results in an invalid path or the path cannot be followed in the file system because an inner component is a data file instead of a directory, the operation performs no changes and rejects (async) or throws (sync). If a path cannot be followed because (parent) directories do not exist, then the behaviour depends on the operation: operations that create files (all operations which retunr `void` or `Promise<void>`) will simply create the necessary directories. All other operations will reject/throw.
- *
- * Async operations never throw, but reject instead.
- *
- * See {@linkcode SimpleFilesystemExt} for an interface providing more advanced file manipulation methods, and see {@linkcode FilesystemExt} for a wrapper that can convert any concrete {@linkcode SimpleFilesystem} into a {@linkcode SimpleFilesystemExt}.
- */
-export interface SimpleFilesystem {
   /**
-   * Returns the current working directory.
+   * Parses a glob pattern, see {@linkcode parseGlob} for the syntax. Throws a {@linkcode ParseGlobError} when receiving an argument that cannot be parsed.
    */
-  pwd(): Path;
+  constructor(pattern: string) {
+    this.pattern = pattern;
+    this.alternatives = expandGlobBraces(pattern, pattern).map((expanded) => {
+      return parseGlobAlternative(expanded, pattern);
+    });
+  }
 
   /**
-   * Sets the working directory by applying a path to the current working directory.
+   * Converts a {@linkcode Glob} or a string into a proper {@linkcode Glob}, by {@linkcode parseGlob | parsing} if the argument is a string.
    */
-  cd(path: Pathish): void;
+  public static fromGlobish(glob: Glob | string): Glob {
+    if (typeof glob === "string") {
+      return parseGlob(glob);
+    } else {
+      return glob;
+    }
+  }
 
   /**
-   * Returns the names of all files in the directory at the given path (defaulting to the current working directory). Rejects if the path addresses a data file instead of a directory.
-   */
-  ls(path?: Pathish): Promise<Set<string>>;
-  /**
-   * Synchronously returns the names of all files in the directory at the given path (defaulting to the current working directory). Throws if the path addresses a data file instead of a directory.
+   * Returns whether the given path matches this glob. An absolute path can only match an absolute pattern, and a relative path can only match a relative pattern with the same number of leading `..` segments.
    */
-  lsSync(path?: Pathish): Set<string>;
+  public matches(path: Pathish): boolean {
+    const path_ = Path.fromPathish(path);
+    const relativity = path_.isAbsolute() ? -1 : path_.getParentSteps();
+    const components = path_.getComponents();
+
+    return this.alternatives.some((alternative) => {
+      return alternative.relativity === relativity &&
+        matchGlobSegments(alternative.segments, 0, components, 0);
+    });
+  }
 
   /**
-   * Returns what kind of file (if any) is at the given path. Rejects if the parent of the targeted file does not exist.
-   */
-  stat(path: Pathish): Promise<"directory" | "data" | "nothing">;
-  /**
-   * Synchronously returns what kind of file (if any) is at the given path. Throws if the parent of the targeted file does not exist.
+   * Returns, for every brace alternative of this glob, the longest path consisting only of the leading segments which contain no wildcards. Every path matching that alternative is {@link Path.prototype.isPrefixedBy | prefixed by} its literal prefix.
    */
-  statSync(path: Pathish): "directory" | "data" | "nothing";
+  public getLiteralPrefixes(): Path[] {
+    return this.alternatives.map((alternative) => {
+      const components: string[] = [];
+
+      for (const segment of alternative.segments) {
+        if (segment.kind === "literal") {
+          components.push(segment.component);
+        } else {
+          break;
+        }
+      }
+
+      return alternative.relativity === -1
+        ? Path.absolute(components)
+        : Path.relative(components, alternative.relativity);
+    });
+  }
+
+  /**
+   * Returns the pattern from which this glob was parsed.
+   */
+  public toString(): string {
+    return this.pattern;
+  }
+}
+
+type GlobAlternative = {
+  // -1 for absolute patterns, the number of leading `..` segments otherwise.
+  relativity: number;
+  segments: GlobSegment[];
+};
+
+type GlobSegment =
+  | { kind: "literal"; component: string }
+  | { kind: "pattern"; regex: RegExp }
+  | { kind: "globstar" };
+
+/**
+ * Parses a glob pattern into a {@linkcode Glob}. Uses `/` as the segment separator, each segment of the pattern matches path components:
+ *
+ * - `*` matches any sequence of characters within a single component,
+ * - `?` matches exactly one character,
+ * - `[abc]`, `[a-z]` match one character of the class, `[!abc]` and `[^abc]` one character not in the class,
+ * - `{foo,bar}` matches either alternative, alternatives may be nested and may contain `/`,
+ * - a segment consisting of exactly `**` matches zero or more complete components,
+ * - `\` escapes the following character.
+ *
+ * Absolute patterns start with `/`. Relative patterns may start with any number of `..` segments, `.` segments are ignored. Like {@linkcode parsePath}, this rejects empty segments, and `..` segments which do not lead the pattern.
+ *
+ * Throws a {@linkcode ParseGlobError} when receiving an argument that cannot be parsed.
+ */
+export function parseGlob(pattern: string): Glob {
+  return new Glob(pattern);
+}
+
+/**
+ * The type of errors thrown by {@linkcode parseGlob}. The `name` property of such an error is always `"ParseGlobError"`.
+ */
+export class ParseGlobError extends Error {
+  patternToParse: string;
+
+  constructor(message: string, patternToParse: string) {
+    super(message);
+    Object.setPrototypeOf(this, ParseGlobError.prototype);
+    this.name = "ParseGlobError";
+    this.patternToParse = patternToParse;
+  }
+}
+
+// Returns the index after the closing `]` of the character class starting at `start`.
+function skipGlobClass(str: string, start: number, pattern: string): number {
+  let i = start + 1;
+
+  if (str[i] === "!" || str[i] === "^") {
+    i += 1;
+  }
+  if (str[i] === "]") {
+    i += 1;
+  }
+
+  while (i < str.length && str[i] !== "]") {
+    i += str[i] === "\\" ? 2 : 1;
+  }
+
+  if (i >= str.length) {
+    throw new ParseGlobError(
+      "Unterminated character class in glob pattern.",
+      pattern,
+    );
+  }
+
+  return i + 1;
+}
+
+function expandGlobBraces(str: string, pattern: string): string[] {
+  let i = 0;
+
+  while (i < str.length) {
+    const c = str[i];
+
+    if (c === "\\") {
+      i += 2;
+    } else if (c === "[") {
+      i = skipGlobClass(str, i, pattern);
+    } else if (c === "}") {
+      throw new ParseGlobError(
+        "Unmatched `}` in glob pattern. Use `\\}` for a literal brace.",
+        pattern,
+      );
+    } else if (c === "{") {
+      const alternatives: string[] = [];
+      let depth = 0;
+      let alternativeStart = i + 1;
+      let j = i + 1;
+
+      while (true) {
+        if (j >= str.length) {
+          throw new ParseGlobError(
+            "Unmatched `{` in glob pattern. Use `\\{` for a literal brace.",
+            pattern,
+          );
+        }
+
+        const d = str[j];
+
+        if (d === "\\") {
+          j += 2;
+        } else if (d === "[") {
+          j = skipGlobClass(str, j, pattern);
+        } else if (d === "{") {
+          depth += 1;
+          j += 1;
+        } else if (d === "}" && depth > 0) {
+          depth -= 1;
+          j += 1;
+        } else if (d === "}") {
+          alternatives.push(str.slice(alternativeStart, j));
+          break;
+        } else if (d === "," && depth === 0) {
+          alternatives.push(str.slice(alternativeStart, j));
+          alternativeStart = j + 1;
+          j += 1;
+        } else {
+          j += 1;
+        }
+      }
+
+      const before = str.slice(0, i);
+      const after = str.slice(j + 1);
+      const expanded: string[] = [];
+
+      for (const alternative of alternatives) {
+        expanded.push(
+          ...expandGlobBraces(`${before}${alternative}${after}`, pattern),
+        );
+      }
+
+      return expanded;
+    } else {
+      i += 1;
+    }
+  }
+
+  return [str];
+}
+
+function parseGlobAlternative(str: string, pattern: string): GlobAlternative {
+  if (str.length === 0) {
+    throw new ParseGlobError(
+      "The empty string is not a glob pattern. Perhaps you need `.` or `/`?",
+      pattern,
+    );
+  }
+
+  const isAbsolute = str.startsWith("/");
+  let parentSteps = 0;
+  const segments: GlobSegment[] = [];
+
+  const parts = str.split("/");
+  if (isAbsolute) {
+    parts.shift();
+
+    if (str === "/") {
+      parts.pop();
+    }
+  }
+
+  for (const part of parts) {
+    if (part === "") {
+      throw new ParseGlobError(
+        "Glob patterns must not contain empty segments, but this one contained successive or trailing slashes.",
+        pattern,
+      );
+    } else if (part === ".") {
+      // do nothing
+    } else if (part === "..") {
+      if (isAbsolute || segments.length > 0) {
+        throw new ParseGlobError(
+          "The `..` segments of a glob pattern must all be at the start of a relative pattern.",
+          pattern,
+        );
+      } else {
+        parentSteps += 1;
+      }
+    } else if (part === "**") {
+      // Successive globstars are equivalent to a single one.
+      if (segments[segments.length - 1]?.kind !== "globstar") {
+        segments.push({ kind: "globstar" });
+      }
+    } else {
+      segments.push(parseGlobSegment(part, pattern));
+    }
+  }
+
+  return { relativity: isAbsolute ? -1 : parentSteps, segments };
+}
+
+function parseGlobSegment(part: string, pattern: string): GlobSegment {
+  let isLiteral = true;
+  let literal = "";
+  let regex = "";
+
+  let i = 0;
+  while (i < part.length) {
+    const c = part[i];
+
+    if (c === "\\") {
+      if (i + 1 >= part.length) {
+        throw new ParseGlobError(
+          "A glob pattern must not end with an unescaped backslash.",
+          pattern,
+        );
+      }
+
+      literal += part[i + 1];
+      regex += escapeRegexChar(part[i + 1]);
+      i += 2;
+    } else if (c === "*") {
+      isLiteral = false;
+      regex += ".*";
+      i += 1;
+    } else if (c === "?") {
+      isLiteral = false;
+      regex += ".";
+      i += 1;
+    } else if (c === "[") {
+      isLiteral = false;
+      const end = skipGlobClass(part, i, pattern);
+      regex += compileGlobClass(part.slice(i + 1, end - 1));
+      i = end;
+    } else {
+      literal += c;
+      regex += escapeRegexChar(c);
+      i += 1;
+    }
+  }
+
+  if (isLiteral) {
+    if (!Path.isComponent(literal)) {
+      throw new ParseGlobError(
+        `The glob pattern contains a segment that is not a valid path component: ${literal}`,
+        pattern,
+      );
+    }
+
+    return { kind: "literal", component: literal };
+  } else {
+    return { kind: "pattern", regex: new RegExp(`^${regex}$`, "su") };
+  }
+}
+
+// Compiles the contents of a character class (without the surrounding brackets) into a regex character class.
+function compileGlobClass(contents: string): string {
+  let compiled = "[";
+  let i = 0;
+
+  if (contents[0] === "!" || contents[0] === "^") {
+    compiled += "^";
+    i = 1;
+  }
+
+  const start = i;
+  while (i < contents.length) {
+    const c = contents[i];
+
+    if (c === "\\" && i + 1 < contents.length) {
+      compiled += escapeRegexChar(contents[i + 1], true);
+      i += 2;
+    } else if (c === "-" && i > start && i + 1 < contents.length) {
+      compiled += "-";
+      i += 1;
+    } else {
+      compiled += escapeRegexChar(c, true);
+      i += 1;
+    }
+  }
+
+  return `${compiled}]`;
+}
+
+function escapeRegexChar(c: string, inClass = false): string {
+  if ("\\^$.*+?()[]{}|/".includes(c) || (inClass && c === "-")) {
+    return `\\${c}`;
+  } else {
+    return c;
+  }
+}
+
+function matchGlobSegments(
+  segments: GlobSegment[],
+  segmentIndex: number,
+  components: string[],
+  componentIndex: number,
+): boolean {
+  if (segmentIndex === segments.length) {
+    return componentIndex === components.length;
+  }
+
+  const segment = segments[segmentIndex];
+
+  if (segment.kind === "globstar") {
+    for (let i = componentIndex; i <= components.length; i++) {
+      if (matchGlobSegments(segments, segmentIndex + 1, components, i)) {
+        return true;
+      }
+    }
+
+    return false;
+  } else if (componentIndex === components.length) {
+    return false;
+  } else {
+    const component = components[componentIndex];
+    const segmentMatches = segment.kind === "literal"
+      ? segment.component === component
+      : segment.regex.test(component);
+
+    return segmentMatches &&
+      matchGlobSegments(
+        segments,
+        segmentIndex + 1,
+        components,
+        componentIndex + 1,
+      );
+  }
+}
+
+/**
+ * A route-style path template such as `/users/:id/posts/*rest.json`, which can both {@link PathTemplate.prototype.match | extract} parameters from a {@linkcode Path} and {@link PathTemplate.prototype.build | build} a {@linkcode Path} from parameters.
+ *
+ * Templates use `/` as the segment separator. Absolute templates start with `/`, relative templates may start with any number of `..` segments, `.` segments are ignored. Every other segment corresponds to path components:
+ *
+ * - A segment without parameters matches exactly the component it spells out.
+ * - `:name` is a parameter which matches a non-empty part of a single component. A segment may combine several such parameters with literal text, as in `:name.:ext`.
+ * - `*name` is a rest parameter which matches one or more complete components. It may be followed by literal text within its segment (such as `.json` in `*rest.json`), which then must be the suffix of the final matched component. A template may contain at most one rest parameter, and a rest parameter may not be preceded by literal text within its segment.
+ * - `\` escapes the following character.
+ *
+ * Parameter names consist of letters, digits, and underscores, and must be unique within a template. The type parameter `T` lets TypeScript infer the {@linkcode PathTemplateParams} of a template given as a string literal.
+ */
+export class PathTemplate<T extends string = string> {
+  /** @ignore */
+  private readonly template: T;
+  // -1 for absolute templates, the number of leading `..` segments otherwise.
+  /** @ignore */
+  private readonly relativity: number;
+  /** @ignore */
+  private readonly segments: TemplateSegment[];
+
+  /**
+   * Parses a path template. Throws a {@linkcode PathTemplateError} when receiving an argument that cannot be parsed.
+   */
+  constructor(template: T) {
+    this.template = template;
+
+    if (template.length === 0) {
+      throw new PathTemplateError(
+        "The empty string is not a path template. Perhaps you need `.` or `/`?",
+        template,
+      );
+    }
+
+    const isAbsolute = template.startsWith("/");
+    let parentSteps = 0;
+    this.segments = [];
+
+    const parts = template.split("/");
+    if (isAbsolute) {
+      parts.shift();
+
+      if (template === "/") {
+        parts.pop();
+      }
+    }
+
+    const names = new Set<string>();
+
+    for (const part of parts) {
+      if (part === "") {
+        throw new PathTemplateError(
+          "Path templates must not contain empty segments, but this one contained successive or trailing slashes.",
+          template,
+        );
+      } else if (part === ".") {
+        // do nothing
+      } else if (part === "..") {
+        if (isAbsolute || this.segments.length > 0) {
+          throw new PathTemplateError(
+            "The `..` segments of a path template must all be at the start of a relative template.",
+            template,
+          );
+        } else {
+          parentSteps += 1;
+        }
+      } else {
+        const segment = parseTemplateSegment(part, template);
+
+        for (const name of templateSegmentNames(segment)) {
+          if (names.has(name)) {
+            throw new PathTemplateError(
+              `The parameter ${name} occurs more than once in the path template.`,
+              template,
+            );
+          }
+
+          names.add(name);
+        }
+
+        if (
+          segment.kind === "rest" &&
+          this.segments.some((other) => other.kind === "rest")
+        ) {
+          throw new PathTemplateError(
+            "A path template must not contain more than one rest parameter.",
+            template,
+          );
+        }
+
+        this.segments.push(segment);
+      }
+    }
+
+    this.relativity = isAbsolute ? -1 : parentSteps;
+  }
+
+  /**
+   * Returns the parameters extracted from the given path, or `undefined` if the path does not match this template. Absolute paths only match absolute templates, relative paths only match relative templates with the same number of leading `..` segments.
+   */
+  match(path: Pathish): PathTemplateParams<T> | undefined {
+    const path_ = Path.fromPathish(path);
+    const relativity = path_.isAbsolute() ? -1 : path_.getParentSteps();
+
+    if (relativity !== this.relativity) {
+      return undefined;
+    }
+
+    const components = path_.getComponents();
+    const params: Record<string, string | string[]> = {};
+
+    const restIndex = this.segments.findIndex((segment) =>
+      segment.kind === "rest"
+    );
+    const before = restIndex === -1 ? this.segments.length : restIndex;
+    const after = restIndex === -1 ? 0 : this.segments.length - restIndex - 1;
+
+    if (
+      restIndex === -1
+        ? components.length !== this.segments.length
+        : components.length < this.segments.length
+    ) {
+      return undefined;
+    }
+
+    for (let i = 0; i < before; i++) {
+      if (!matchTemplateSegment(this.segments[i], components[i], params)) {
+        return undefined;
+      }
+    }
+
+    for (let i = 0; i < after; i++) {
+      const segment = this.segments[this.segments.length - after + i];
+      const component = components[components.length - after + i];
+
+      if (!matchTemplateSegment(segment, component, params)) {
+        return undefined;
+      }
+    }
+
+    if (restIndex !== -1) {
+      const rest = this.segments[restIndex] as TemplateRestSegment;
+      const captured = components.slice(before, components.length - after);
+      const final = captured[captured.length - 1];
+
+      if (!final.endsWith(rest.suffix)) {
+        return undefined;
+      }
+
+      const stripped = final.slice(0, final.length - rest.suffix.length);
+      if (!Path.isComponent(stripped)) {
+        return undefined;
+      }
+
+      captured[captured.length - 1] = stripped;
+      params[rest.name] = captured;
+    }
+
+    return params as PathTemplateParams<T>;
+  }
+
+  /**
+   * Builds the path described by this template for the given parameters. Throws a {@linkcode PathTemplateError} if a parameter is missing, if a rest parameter is not a non-empty array of {@link Path.isComponent | valid components}, or if any resulting component would not be {@link Path.isComponent | valid}.
+   */
+  build(params: PathTemplateParams<T>): Path {
+    const params_ = params as Record<string, string | string[] | undefined>;
+    const components: string[] = [];
+
+    for (const segment of this.segments) {
+      if (segment.kind === "rest") {
+        const value = params_[segment.name];
+
+        if (
+          !Array.isArray(value) || value.length === 0 ||
+          !value.every((component) => Path.isComponent(component))
+        ) {
+          throw new PathTemplateError(
+            `The rest parameter ${segment.name} must be a non-empty array of valid path components.`,
+            this.template,
+          );
+        }
+
+        components.push(...value.slice(0, -1));
+        components.push(`${value[value.length - 1]}${segment.suffix}`);
+      } else {
+        let component = "";
+
+        for (const part of segment.parts) {
+          if (typeof part === "string") {
+            component += part;
+          } else {
+            const value = params_[part.param];
+
+            if (typeof value !== "string" || value === "") {
+              throw new PathTemplateError(
+                `The parameter ${part.param} must be a non-empty string.`,
+                this.template,
+              );
+            }
+
+            component += value;
+          }
+        }
+
+        components.push(component);
+      }
+    }
+
+    for (const component of components) {
+      if (!Path.isComponent(component)) {
+        throw new PathTemplateError(
+          `Building the path would yield an invalid path component: ${component}`,
+          this.template,
+        );
+      }
+    }
+
+    return this.relativity === -1
+      ? Path.absolute(components)
+      : Path.relative(components, this.relativity);
+  }
+
+  /**
+   * Returns the template string from which this template was parsed.
+   */
+  toString(): string {
+    return this.template;
+  }
+}
+
+/**
+ * Parses a path template, see {@linkcode PathTemplate} for the syntax.
+ *
+ * Throws a {@linkcode PathTemplateError} when receiving an argument that cannot be parsed.
+ */
+export function parsePathTemplate<T extends string>(
+  template: T,
+): PathTemplate<T> {
+  return new PathTemplate(template);
+}
+
+/**
+ * The parameters of the {@linkcode PathTemplate} described by the string `T`: an object with a string property for every `:name` parameter, and an array-of-strings property for every `*name` rest parameter. If `T` is not a string literal type, this is a record of both kinds of values.
+ */
+export type PathTemplateParams<T extends string> = string extends T
+  ? Record<string, string | string[]>
+  : CollectTemplateParams<T, Record<never, never>>;
+
+type CollectTemplateParams<T extends string, Acc> = T extends
+  `\\${string}${infer Rest}` ? CollectTemplateParams<Rest, Acc>
+  : T extends `:${infer Rest}` ? CollectTemplateParams<
+      SplitIdentifier<Rest>[1],
+      Acc & { [K in SplitIdentifier<Rest>[0]]: string }
+    >
+  : T extends `*${infer Rest}` ? CollectTemplateParams<
+      SplitIdentifier<Rest>[1],
+      Acc & { [K in SplitIdentifier<Rest>[0]]: string[] }
+    >
+  : T extends `${string}${infer Rest}` ? CollectTemplateParams<Rest, Acc>
+  : { [K in keyof Acc]: Acc[K] };
+
+type SplitIdentifier<S extends string, Name extends string = ""> = S extends
+  `${infer C}${infer Rest}`
+  ? IsIdentifierCharacter<C> extends true ? SplitIdentifier<Rest, `${Name}${C}`>
+  : [Name, S]
+  : [Name, ""];
+
+type IsIdentifierCharacter<C extends string> = C extends
+  "_" | "0" | "1" | "2" | "3" | "4" | "5" | "6" | "7" | "8" | "9" ? true
+  : Lowercase<C> extends Uppercase<C> ? false
+  : true;
+
+/**
+ * The type of errors thrown when parsing a {@linkcode PathTemplate}, or when {@link PathTemplate.prototype.build | building} a path from one. The `name` property of such an error is always `"PathTemplateError"`.
+ */
+export class PathTemplateError extends Error {
+  template: string;
+
+  constructor(message: string, template: string) {
+    super(message);
+    Object.setPrototypeOf(this, PathTemplateError.prototype);
+    this.name = "PathTemplateError";
+    this.template = template;
+  }
+}
+
+type TemplateComponentSegment = {
+  kind: "component";
+  parts: (string | { param: string })[];
+  regex: RegExp;
+};
+
+type TemplateRestSegment = { kind: "rest"; name: string; suffix: string };
+
+type TemplateSegment = TemplateComponentSegment | TemplateRestSegment;
+
+// Must agree with `IsIdentifierCharacter`.
+function isIdentifierCharacter(c: string): boolean {
+  return c === "_" || (c >= "0" && c <= "9") ||
+    c.toLowerCase() !== c.toUpperCase();
+}
+
+function parseTemplateSegment(part: string, template: string): TemplateSegment {
+  const parts: (string | { param: string })[] = [];
+  let literal = "";
+  let rest: string | undefined = undefined;
+
+  let i = 0;
+  while (i < part.length) {
+    const c = part[i];
+
+    if (c === "\\") {
+      if (i + 1 >= part.length) {
+        throw new PathTemplateError(
+          "A path template must not end with an unescaped backslash.",
+          template,
+        );
+      }
+
+      literal += part[i + 1];
+      i += 2;
+    } else if (c === ":" || c === "*") {
+      let j = i + 1;
+      while (j < part.length && isIdentifierCharacter(part[j])) {
+        j += 1;
+      }
+
+      const name = part.slice(i + 1, j);
+      if (name === "") {
+        throw new PathTemplateError(
+          `Expected a parameter name after \`${c}\`. Use \`\\${c}\` for a literal \`${c}\`.`,
+          template,
+        );
+      }
+
+      if (
+        rest !== undefined ||
+        (c === "*" && (parts.length > 0 || literal !== ""))
+      ) {
+        throw new PathTemplateError(
+          "A rest parameter must start its segment, and must not be followed by other parameters in that segment.",
+          template,
+        );
+      }
+
+      if (literal !== "") {
+        parts.push(literal);
+        literal = "";
+      }
+
+      if (c === ":") {
+        parts.push({ param: name });
+      } else {
+        rest = name;
+      }
+
+      i = j;
+    } else {
+      literal += c;
+      i += 1;
+    }
+  }
+
+  if (rest !== undefined) {
+    return { kind: "rest", name: rest, suffix: literal };
+  }
+
+  if (literal !== "") {
+    parts.push(literal);
+  }
+
+  if (parts.length === 1 && typeof parts[0] === "string") {
+    if (!Path.isComponent(parts[0])) {
+      throw new PathTemplateError(
+        `The path template contains a segment that is not a valid path component: ${
+          parts[0]
+        }`,
+        template,
+      );
+    }
+  }
+
+  let regex = "";
+  for (const templatePart of parts) {
+    regex += typeof templatePart === "string"
+      ? templatePart.replace(/[\\^$.*+?()[\]{}|\/]/g, "\\$&")
+      : "(.+?)";
+  }
+
+  return { kind: "component", parts, regex: new RegExp(`^${regex}$`, "su") };
+}
+
+function templateSegmentNames(segment: TemplateSegment): string[] {
+  if (segment.kind === "rest") {
+    return [segment.name];
+  } else {
+    const names: string[] = [];
+
+    for (const part of segment.parts) {
+      if (typeof part !== "string") {
+        names.push(part.param);
+      }
+    }
+
+    return names;
+  }
+}
+
+function matchTemplateSegment(
+  segment: TemplateSegment,
+  component: string,
+  params: Record<string, string | string[]>,
+): boolean {
+  if (segment.kind === "rest") {
+    return false;
+  }
+
+  const result = segment.regex.exec(component);
+  if (result === null) {
+    return false;
+  }
+
+  let group = 1;
+  for (const part of segment.parts) {
+    if (typeof part !== "string") {
+      params[part.param] = result[group];
+      group += 1;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Encodes a {@linkcode Path} into a compact, unambiguous binary representation, which can be decoded again with {@linkcode decodePath}.
+ *
+ * The encoding consists of a sequence of unsigned [LEB128](https://en.wikipedia.org/wiki/LEB128) integers and byte strings: first `0` for absolute paths or one plus the number of {@link Path.prototype.getParentSteps | parent steps} for relative paths, then the number of {@link Path.isComponent | components}, then for each component the length of its utf8 encoding followed by that encoding.
+ *
+ * Components must be well-formed unicode strings (i.e., must not contain lone surrogates), otherwise this function throws an {@linkcode EncodePathError}.
+ */
+export function encodePath(path: Pathish): Uint8Array {
+  const path_ = Path.fromPathish(path);
+  const encoder = new TextEncoder();
+  const bytes: number[] = [];
+
+  writeLeb128(bytes, path_.isAbsolute() ? 0 : path_.getParentSteps() + 1);
+  writeLeb128(bytes, path_.getComponentCount());
+
+  for (const component of path_.getComponents()) {
+    if (!component.isWellFormed()) {
+      throw new EncodePathError(
+        `Cannot encode a path component which is not well-formed unicode: ${component}`,
+        path_,
+      );
+    }
+
+    const encoded = encoder.encode(component);
+    writeLeb128(bytes, encoded.length);
+
+    // Not spread into `push`, since very long components would overflow the stack.
+    for (const byte of encoded) {
+      bytes.push(byte);
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Decodes a {@linkcode Path} which was encoded with {@linkcode encodePath}. The bytes must contain exactly one encoded path, without any trailing bytes.
+ *
+ * Throws a {@linkcode DecodePathError} when receiving bytes that are not a valid encoding.
+ */
+export function decodePath(bytes: Uint8Array): Path {
+  const decoder = new TextDecoder("utf-8", { fatal: true });
+  const offset = { value: 0 };
+
+  const relativity = readLeb128(bytes, offset);
+  const componentCount = readLeb128(bytes, offset);
+  const components: string[] = [];
+
+  for (let i = 0; i < componentCount; i++) {
+    const length = readLeb128(bytes, offset);
+
+    if (offset.value + length > bytes.length) {
+      throw new DecodePathError(
+        "The encoding of a path component ended unexpectedly.",
+        bytes,
+      );
+    }
+
+    let component: string;
+    try {
+      component = decoder.decode(
+        bytes.subarray(offset.value, offset.value + length),
+      );
+    } catch {
+      throw new DecodePathError(
+        "A path component was not encoded as valid utf8.",
+        bytes,
+      );
+    }
+
+    if (!Path.isComponent(component)) {
+      throw new DecodePathError(
+        `Decoded an invalid path component: ${component}`,
+        bytes,
+      );
+    }
+
+    components.push(component);
+    offset.value += length;
+  }
+
+  if (offset.value !== bytes.length) {
+    throw new DecodePathError(
+      "There were trailing bytes after the encoding of a path.",
+      bytes,
+    );
+  }
+
+  return relativity === 0
+    ? Path.absolute(components)
+    : Path.relative(components, relativity - 1);
+}
+
+/**
+ * The type of errors thrown by {@linkcode encodePath}. The `name` property of such an error is always `"EncodePathError"`.
+ */
+export class EncodePathError extends Error {
+  /**
+   * The path which could not be encoded.
+   */
+  pathToEncode: Path;
+
+  constructor(message: string, pathToEncode: Path) {
+    super(message);
+    Object.setPrototypeOf(this, EncodePathError.prototype);
+    this.name = "EncodePathError";
+    this.pathToEncode = pathToEncode;
+  }
+}
+
+/**
+ * The type of errors thrown by {@linkcode decodePath}. The `name` property of such an error is always `"DecodePathError"`.
+ */
+export class DecodePathError extends Error {
+  bytesToDecode: Uint8Array;
+
+  constructor(message: string, bytesToDecode: Uint8Array) {
+    super(message);
+    Object.setPrototypeOf(this, DecodePathError.prototype);
+    this.name = "DecodePathError";
+    this.bytesToDecode = bytesToDecode;
+  }
+}
+
+function writeLeb128(bytes: number[], n: number) {
+  while (n >= 0x80) {
+    bytes.push((n % 0x80) | 0x80);
+    n = Math.floor(n / 0x80);
+  }
+
+  bytes.push(n);
+}
+
+function readLeb128(bytes: Uint8Array, offset: { value: number }): number {
+  let n = 0;
+  let factor = 1;
+
+  while (true) {
+    if (offset.value >= bytes.length) {
+      throw new DecodePathError(
+        "The encoding of a path ended unexpectedly.",
+        bytes,
+      );
+    }
+
+    const byte = bytes[offset.value];
+    offset.value += 1;
+    n += (byte & 0x7f) * factor;
+
+    if (!Number.isSafeInteger(n)) {
+      throw new DecodePathError(
+        "The encoding of a path contained an integer that is too large.",
+        bytes,
+      );
+    }
+
+    if ((byte & 0x80) === 0) {
+      if (byte === 0 && factor > 1) {
+        // Every integer has exactly one encoding, without redundant trailing zero groups.
+        throw new DecodePathError(
+          "The encoding of a path contained an integer that was not encoded minimally.",
+          bytes,
+        );
+      }
+
+      return n;
+    }
+
+    factor *= 0x80;
+  }
+}
+
+/**
+ * A map whose keys are {@linkcode Path | Paths}, compared by {@link Path.prototype.equals | equality} rather than by identity. All methods accept {@linkcode Pathish | Pathishes} as keys.
+ */
+export class PathMap<V> implements Iterable<[Path, V]> {
+  /** @ignore */
+  private readonly entries_: Map<string, [Path, V]>;
+
+  /**
+   * Creates a new map, optionally populated with the given entries.
+   */
+  constructor(entries?: Iterable<[Pathish, V]>) {
+    this.entries_ = new Map();
+
+    if (entries !== undefined) {
+      for (const [path, value] of entries) {
+        this.set(path, value);
+      }
+    }
+  }
+
+  /**
+   * The number of entries in this map.
+   */
+  get size(): number {
+    return this.entries_.size;
+  }
+
+  /**
+   * Returns the value associated with the given path, or `undefined` if there is none.
+   */
+  get(path: Pathish): V | undefined {
+    return this.entries_.get(pathKey(path))?.[1];
+  }
+
+  /**
+   * Returns whether there is a value associated with the given path.
+   */
+  has(path: Pathish): boolean {
+    return this.entries_.has(pathKey(path));
+  }
+
+  /**
+   * Associates a value with the given path, replacing any previous value.
+   */
+  set(path: Pathish, value: V): this {
+    const path_ = Path.fromPathish(path);
+    this.entries_.set(pathKey(path_), [path_, value]);
+    return this;
+  }
+
+  /**
+   * Removes the entry for the given path. Returns whether there was such an entry.
+   */
+  delete(path: Pathish): boolean {
+    return this.entries_.delete(pathKey(path));
+  }
+
+  /**
+   * Removes all entries.
+   */
+  clear(): void {
+    this.entries_.clear();
+  }
+
+  /**
+   * Iterates over all paths in this map, in insertion order.
+   */
+  *keys(): IterableIterator<Path> {
+    for (const [path] of this.entries_.values()) {
+      yield path;
+    }
+  }
+
+  /**
+   * Iterates over all values in this map, in insertion order.
+   */
+  *values(): IterableIterator<V> {
+    for (const [, value] of this.entries_.values()) {
+      yield value;
+    }
+  }
+
+  /**
+   * Iterates over all entries in this map, in insertion order. Every entry is a fresh array, so changing it does not affect the map.
+   */
+  *entries(): IterableIterator<[Path, V]> {
+    for (const [path, value] of this.entries_.values()) {
+      yield [path, value];
+    }
+  }
+
+  [Symbol.iterator](): IterableIterator<[Path, V]> {
+    return this.entries();
+  }
+}
+
+/**
+ * A set of {@linkcode Path | Paths}, compared by {@link Path.prototype.equals | equality} rather than by identity. All methods accept {@linkcode Pathish | Pathishes}.
+ */
+export class PathSet implements Iterable<Path> {
+  /** @ignore */
+  private readonly map: PathMap<undefined>;
+
+  /**
+   * Creates a new set, optionally populated with the given paths.
+   */
+  constructor(paths?: Iterable<Pathish>) {
+    this.map = new PathMap();
+
+    if (paths !== undefined) {
+      for (const path of paths) {
+        this.add(path);
+      }
+    }
+  }
+
+  /**
+   * The number of paths in this set.
+   */
+  get size(): number {
+    return this.map.size;
+  }
+
+  /**
+   * Returns whether the given path is in this set.
+   */
+  has(path: Pathish): boolean {
+    return this.map.has(path);
+  }
+
+  /**
+   * Adds the given path to this set.
+   */
+  add(path: Pathish): this {
+    this.map.set(path, undefined);
+    return this;
+  }
+
+  /**
+   * Removes the given path from this set. Returns whether it was in the set.
+   */
+  delete(path: Pathish): boolean {
+    return this.map.delete(path);
+  }
+
+  /**
+   * Removes all paths.
+   */
+  clear(): void {
+    this.map.clear();
+  }
+
+  /**
+   * Iterates over all paths in this set, in insertion order.
+   */
+  values(): IterableIterator<Path> {
+    return this.map.keys();
+  }
+
+  [Symbol.iterator](): IterableIterator<Path> {
+    return this.values();
+  }
+}
+
+// Paths cannot contain `/` or `..` components, so their string renderings are unique.
+function pathKey(path: Pathish): string {
+  return Path.fromPathish(path).toString();
+}
+
+/**
+ * A map whose keys are {@linkcode Path | Paths}, which supports efficient queries for all entries below a given path, and for the entry with the longest path that {@link Path.prototype.prefixes | prefixes} a given path. Useful for mount tables, ignore lists, and caches.
+ *
+ * As with {@linkcode Path.prototype.prefixes | Path.prefixes}, a path only ever prefixes paths of the same relativity: absolute paths never prefix relative paths, and relative paths only prefix relative paths with the same number of {@link Path.prototype.getParentSteps | parent steps}.
+ */
+export class PathTrie<V> {
+  // One trie per relativity, keyed by `-1` for absolute paths and by the number of parent steps for relative paths.
+  /** @ignore */
+  private readonly roots: Map<number, PathTrieNode<V>>;
+  /** @ignore */
+  private size_: number;
+
+  /**
+   * Creates a new trie, optionally populated with the given entries.
+   */
+  constructor(entries?: Iterable<[Pathish, V]>) {
+    this.roots = new Map();
+    this.size_ = 0;
+
+    if (entries !== undefined) {
+      for (const [path, value] of entries) {
+        this.set(path, value);
+      }
+    }
+  }
+
+  /**
+   * The number of entries in this trie.
+   */
+  get size(): number {
+    return this.size_;
+  }
+
+  /**
+   * Returns the value associated with the given path, or `undefined` if there is none.
+   */
+  get(path: Pathish): V | undefined {
+    const node = this.findNode(Path.fromPathish(path));
+    return node?.entry?.[1];
+  }
+
+  /**
+   * Returns whether there is a value associated with the given path.
+   */
+  has(path: Pathish): boolean {
+    const node = this.findNode(Path.fromPathish(path));
+    return node?.entry !== undefined;
+  }
+
+  /**
+   * Associates a value with the given path, replacing any previous value.
+   */
+  set(path: Pathish, value: V): this {
+    const path_ = Path.fromPathish(path);
+    const relativity = pathRelativity(path_);
+
+    let node = this.roots.get(relativity);
+    if (node === undefined) {
+      node = { children: new Map() };
+      this.roots.set(relativity, node);
+    }
+
+    for (const component of path_.getComponents()) {
+      let child: PathTrieNode<V> | undefined = node.children.get(component);
+
+      if (child === undefined) {
+        child = { children: new Map() };
+        node.children.set(component, child);
+      }
+
+      node = child;
+    }
+
+    if (node.entry === undefined) {
+      this.size_ += 1;
+    }
+    node.entry = [path_, value];
+
+    return this;
+  }
+
+  /**
+   * Removes the entry for the given path. Returns whether there was such an entry.
+   */
+  delete(path: Pathish): boolean {
+    const path_ = Path.fromPathish(path);
+    const relativity = pathRelativity(path_);
+    const root = this.roots.get(relativity);
+
+    if (root === undefined) {
+      return false;
+    }
+
+    const nodes = [root];
+    for (const component of path_.getComponents()) {
+      const child = nodes[nodes.length - 1].children.get(component);
+
+      if (child === undefined) {
+        return false;
+      }
+
+      nodes.push(child);
+    }
+
+    const node = nodes[nodes.length - 1];
+    if (node.entry === undefined) {
+      return false;
+    }
+
+    node.entry = undefined;
+    this.size_ -= 1;
+
+    // Prune nodes which no longer lead to any entry.
+    for (let i = nodes.length - 1; i > 0; i--) {
+      if (nodes[i].entry !== undefined || nodes[i].children.size > 0) {
+        break;
+      }
+
+      nodes[i - 1].children.delete(path_.getIthComponent(i - 1)!);
+    }
+
+    if (root.entry === undefined && root.children.size === 0) {
+      this.roots.delete(relativity);
+    }
+
+    return true;
+  }
+
+  /**
+   * Removes all entries.
+   */
+  clear(): void {
+    this.roots.clear();
+    this.size_ = 0;
+  }
+
+  /**
+   * Iterates over all entries whose path is {@link Path.prototype.isPrefixedBy | prefixed by} the given path (including the entry for the given path itself, if any). Entries are yielded depth-first, every entry before the entries below it.
+   */
+  *entriesUnder(prefix: Pathish): IterableIterator<[Path, V]> {
+    const node = this.findNode(Path.fromPathish(prefix));
+
+    if (node !== undefined) {
+      yield* trieNodeEntries(node);
+    }
+  }
+
+  /**
+   * Returns the entry with the longest path that {@link Path.prototype.prefixes | prefixes} the given path (possibly the given path itself), or `undefined` if no path in this trie prefixes the given path.
+   */
+  longestPrefixOf(path: Pathish): [Path, V] | undefined {
+    const path_ = Path.fromPathish(path);
+    let node = this.roots.get(pathRelativity(path_));
+
+    if (node === undefined) {
+      return undefined;
+    }
+
+    let longest = node.entry;
+
+    for (const component of path_.getComponents()) {
+      node = node.children.get(component);
+
+      if (node === undefined) {
+        break;
+      }
+
+      if (node.entry !== undefined) {
+        longest = node.entry;
+      }
+    }
+
+    return longest;
+  }
+
+  /**
+   * Iterates over all entries in this trie.
+   */
+  *entries(): IterableIterator<[Path, V]> {
+    for (const root of this.roots.values()) {
+      yield* trieNodeEntries(root);
+    }
+  }
+
+  [Symbol.iterator](): IterableIterator<[Path, V]> {
+    return this.entries();
+  }
+
+  /** @ignore */
+  private findNode(path: Path): PathTrieNode<V> | undefined {
+    let node = this.roots.get(pathRelativity(path));
+
+    for (const component of path.getComponents()) {
+      if (node === undefined) {
+        return undefined;
+      }
+
+      node = node.children.get(component);
+    }
+
+    return node;
+  }
+}
+
+type PathTrieNode<V> = {
+  entry?: [Path, V];
+  children: Map<string, PathTrieNode<V>>;
+};
+
+// Yields all entries in the subtrie of the given node, depth-first.
+function* trieNodeEntries<V>(node: PathTrieNode<V>): Generator<[Path, V]> {
+  const pending = [node];
+
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+
+    if (current.entry !== undefined) {
+      yield current.entry;
+    }
+
+    pending.push(...[...current.children.values()].reverse());
+  }
+}
+
+function pathRelativity(path: Path): number {
+  return path.isAbsolute() ? -1 : path.getParentSteps();
+}
+
+/**
+ * Describes how a file operation should operate when it would conflict with existing files.
+ *
+ * All implementors of the {@linkcode SimpleFilesystem} and {@linkcode SimpleFilesystemExt} interfaces must have all operations default to `"timid"`.
+ *
+ * - `"timid"`: throw an error.
+ * - `"placid"`: leave the file system unchanged, but do noth throw an error.
+ * - `"assertive"`: overwrite whatever was there before.
+ */
+export type Mode = "timid" | "placid" | "assertive";
+
+/**
+ * The operations of a {@linkcode SimpleFilesystem} which do not change any files: navigating, listing, and reading. Functions which only take a `ReadableSimpleFilesystem` promise (at the type level) not to change the filesystem; wrap a {@linkcode SimpleFilesystem} in a {@linkcode ReadOnlyFs} to enforce this at runtime as well.
+ *
+ * See {@linkcode SimpleFilesystem} for the semantics of all operations.
+ */
+export interface ReadableSimpleFilesystem {
+  /**
+   * Returns the current working directory.
+   */
+  pwd(): Path;
+
+  /**
+   * Sets the working directory by applying a path to the current working directory.
+   */
+  cd(path: Pathish): void;
+
+  /**
+   * Returns the names of all files in the directory at the given path (defaulting to the current working directory). Rejects if the path addresses a data file instead of a directory.
+   */
+  ls(path?: Pathish): Promise<Set<string>>;
+  /**
+   * Synchronously returns the names of all files in the directory at the given path (defaulting to the current working directory). Throws if the path addresses a data file instead of a directory.
+   */
+  lsSync(path?: Pathish): Set<string>;
+
+  /**
+   * Returns what kind of file (if any) is at the given path. Rejects if the parent of the targeted file does not exist.
+   */
+  stat(path: Pathish): Promise<"directory" | "data" | "nothing">;
+  /**
+   * Synchronously returns what kind of file (if any) is at the given path. Throws if the parent of the targeted file does not exist.
+   */
+  statSync(path: Pathish): "directory" | "data" | "nothing";
 
   /**
    * Reads the complete contents of a data file into a byte buffer. Rejects if the path addresses a directory (or nothing).
    */
-  read(path: Pathish): Promise<Uint8Array>;
+  read(path: Pathish): Promise<Uint8Array>;
+  /**
+   * Synchronously reads the complete contents of a data file into a byte buffer. Throws if the path addresses a directory (or nothing).
+   */
+  readSync(path: Pathish): Uint8Array;
+
+  /**
+   * Optionally, returns a stream of the contents of a data file, for reading large files without holding them in memory completely. The stream errors if the path addresses a directory (or nothing).
+   *
+   * Filesystems which do not implement this method can still be streamed from via {@linkcode FilesystemExt.prototype.readStream | FilesystemExt.readStream}.
+   */
+  readStream?(path: Pathish): ReadableStream<Uint8Array>;
+
+  /**
+   * Optionally, reads up to `length` bytes of a data file, starting at byte `offset`. Returns fewer bytes if the file ends before `offset + length`. Rejects if the path addresses a directory (or nothing), or if `offset` or `length` is not a natural number.
+   *
+   * Filesystems which do not implement this method can still be read from partially via {@linkcode FilesystemExt.prototype.readRange | FilesystemExt.readRange}.
+   */
+  readRange?(
+    path: Pathish,
+    offset: number,
+    length: number,
+  ): Promise<Uint8Array>;
+  /**
+   * Optionally, synchronously reads up to `length` bytes of a data file, starting at byte `offset`. Returns fewer bytes if the file ends before `offset + length`. Throws if the path addresses a directory (or nothing), or if `offset` or `length` is not a natural number.
+   *
+   * Filesystems which do not implement this method can still be read from partially via {@linkcode FilesystemExt.prototype.readRangeSync | FilesystemExt.readRangeSync}.
+   */
+  readRangeSync?(path: Pathish, offset: number, length: number): Uint8Array;
+}
+
+/**
+ * A simple filesystem.
+ *
+ * Conceptually, a filesystem is the pair of some root *directory* and a dedicated position therein, called the *current working directory*. This interface describes the operations by which such a filesystem can be manipulated.
+ *
+ * A *directory* is a mapping from {@link Path.isComponent | path components} to directories and/or data files.
+ *
+ * All operations that take paths as arguments apply the path to the current working directory to determine where to operate. If applying the path results in an invalid path or the path cannot be followed in the file system because an inner component is a data file instead of a directory, the operation performs no changes and rejects (async) or throws (sync). If a path cannot be followed because (parent) directories do not exist, then the behaviour depends on the operation: operations that create files (all operations which retunr `void` or `Promise<void>`) will simply create the necessary directories. All other operations will reject/throw.
+ *
+ * Async operations never throw, but reject instead.
+ *
+ * See {@linkcode SimpleFilesystemExt} for an interface providing more advanced file manipulation methods, and see {@linkcode FilesystemExt} for a wrapper that can convert any concrete {@linkcode SimpleFilesystem} into a {@linkcode SimpleFilesystemExt}.
+ */
+export interface SimpleFilesystem extends ReadableSimpleFilesystem {
+  /**
+   * Creates a file with the given contents at the given path.
+   */
+  write(
+    path: Pathish,
+    data: Uint8Array,
+    mode?: Mode,
+  ): Promise<void>;
+  /**
+   * Synchronously creates a file with the given contents at the given path.
+   */
+  writeSync(path: Pathish, data: Uint8Array, mode?: Mode): void;
+
+  /**
+   * Creates an empty directory at the given path.
+   */
+  mkdir(path: Pathish, mode?: Mode): Promise<void>;
+  /**
+   * Synchronously creates an empty directory at the given path.
+   */
+  mkdirSync(path: Pathish, mode?: Mode): void;
+
+  /**
+   * Removes the file at the given path. Rejects if there is no file there.
+   */
+  remove(path: Pathish): Promise<void>;
+  /**
+   * Removes the file at the given path. Throws if there is no file there.
+   */
+  removeSync(path: Pathish): void;
+
+  /**
+   * Copies the file (which may be a directory) at `src` to `dst`. Rejects if `src` is not a file. The `mode` applies to `dst`.
+   */
+  copy(src: Pathish, dst: Pathish, mode?: Mode): Promise<void>;
+  /**
+   * Synchronously copies the file (which may be a directory) at `src` to `dst`. Throws if `src` is not a file. The `mode` applies to `dst`.
+   */
+  copySync(src: Pathish, dst: Pathish, mode?: Mode): void;
+
+  /**
+   * Moves the file (which may be a directory) at `src` to `dst`. Rejects if `src` is not a file. The `mode` applies to `dst`.
+   */
+  move(src: Pathish, dst: Pathish, mode?: Mode): Promise<void>;
+  /**
+   * Synchronously moves the file (which may be a directory) at `src` to `dst`. Throws if `src` is not a file. The `mode` applies to `dst`.
+   */
+  moveSync(src: Pathish, dst: Pathish, mode?: Mode): void;
+
+  /**
+   * Optionally, returns a stream which writes a data file at the given path, for writing large files without holding them in memory completely. The file is only guaranteed to be complete once the stream has been closed successfully; the stream errors if the write would fail.
+   *
+   * Filesystems which do not implement this method can still be streamed to via {@linkcode FilesystemExt.prototype.writeStream | FilesystemExt.writeStream}.
+   */
+  writeStream?(path: Pathish, mode?: Mode): WritableStream<Uint8Array>;
+
+  /**
+   * Optionally, appends data to the data file at the given path. If there is nothing at the path, creates a data file with the given data (regardless of the `mode`). If there is a directory at the path, the `mode` determines whether to reject, to do nothing, or to replace the directory with a data file.
+   *
+   * Filesystems which do not implement this method can still be appended to via {@linkcode FilesystemExt.prototype.append | FilesystemExt.append}.
+   */
+  append?(path: Pathish, data: Uint8Array, mode?: Mode): Promise<void>;
+  /**
+   * Optionally, synchronously appends data to the data file at the given path. If there is nothing at the path, creates a data file with the given data (regardless of the `mode`). If there is a directory at the path, the `mode` determines whether to throw, to do nothing, or to replace the directory with a data file.
+   *
+   * Filesystems which do not implement this method can still be appended to via {@linkcode FilesystemExt.prototype.appendSync | FilesystemExt.appendSync}.
+   */
+  appendSync?(path: Pathish, data: Uint8Array, mode?: Mode): void;
+}
+
+/**
+ * This interface adds some utility functions to the {@linkcode SimpleFilesystem} interface. Any {@linkcode SimpleFilesystem} can be converted into a {@linkcode SimpleFilesystemExt} via the {@linkcode FilesystemExt} class, but this interface can also be implemented natively for more efficient method implementations than the default implementations of {@linkcode FilesystemExt}.
+ */
+export interface SimpleFilesystemExt {
+  /**
+   * Reads the complete contents of a utf8 data file into a string. Rejects if the file does not contain valid utf8, or if the path addresses a directory (or nothing).
+   */
+  readString(path: Pathish): Promise<string>;
+  /**
+   * Synchronously reads the complete contents of a utf8 data file into a string. Throws if the file does not contain valid utf8, or if the path addresses a directory (or nothing).
+   */
+  readStringSync(path: Pathish): string;
+
+  /**
+   * Creates a file with the utf8 encoding of the given string at the given path.
+   */
+  writeString(
+    path: Pathish,
+    data: string,
+    mode?: Mode,
+  ): Promise<void>;
+  /**
+   * Synchronously creates a file with the utf8 encoding of the given string at the given path.
+   */
+  writeStringSync(path: Pathish, data: string, mode?: Mode): void;
+
+  /**
+   * Ensures there is no file at the given destination (if the mode allows for overwriting, will remove the destination when necessary, otherwise will reject).
+   */
+  ensureNot(path: Pathish, mode?: Mode): Promise<void>;
+  /**
+   * Synchronously there is no file at the given destination (if the mode allows for overwriting, will remove the destination when necessary, otherwise will reject).
+   */
+  ensureNotSync(path: Pathish, mode?: Mode): void;
+
+  /**
+   * Returns `true` iff the contents of the current working directory of the `other` file system are equal to the contents of the current working directory of this file system.
+   */
+  eq(other: ReadableSimpleFilesystem): boolean;
+
+  /**
+   * Returns all {@link FileChange | changes} which turn the file at `options.path` of this filesystem into the file at `options.otherPath` of the `other` filesystem (both defaulting to the respective current working directory), sorted by their paths via {@linkcode Path.compare}. The paths of the changes are relative to the two compared files. Rejects if the parent of either compared file does not exist.
+   */
+  diff(
+    other: ReadableSimpleFilesystem,
+    options?: DiffOptions,
+  ): Promise<FileChange[]>;
+  /**
+   * Synchronously returns all {@link FileChange | changes} which turn the file at `options.path` of this filesystem into the file at `options.otherPath` of the `other` filesystem (both defaulting to the respective current working directory), sorted by their paths via {@linkcode Path.compare}. The paths of the changes are relative to the two compared files. Throws if the parent of either compared file does not exist.
+   */
+  diffSync(
+    other: ReadableSimpleFilesystem,
+    options?: DiffOptions,
+  ): FileChange[];
+
+  /**
+   * Visits all files below the directory at the given path (defaulting to the current working directory), see {@linkcode WalkOptions} for how to configure the traversal. The directory at the given path is not yielded itself. Rejects if the path does not address a directory.
+   */
+  walk(path?: Pathish, options?: WalkOptions): AsyncIterable<WalkEntry>;
+  /**
+   * Synchronously visits all files below the directory at the given path (defaulting to the current working directory), see {@linkcode WalkOptions} for how to configure the traversal. The directory at the given path is not yielded itself. Throws if the path does not address a directory.
+   */
+  walkSync(path?: Pathish, options?: WalkOptions): Iterable<WalkEntry>;
+
+  /**
+   * Returns all paths which {@link Glob.prototype.matches | match} the given glob (or pattern to be {@linkcode parseGlob | parsed} into a glob). Relative patterns are resolved against the current working directory, and yield relative paths. Only the subtrees below the {@link Glob.prototype.getLiteralPrefixes | literal prefixes} of the pattern are visited.
+   */
+  glob(pattern: Glob | string): Promise<Path[]>;
+  /**
+   * Synchronously returns all paths which {@link Glob.prototype.matches | match} the given glob (or pattern to be {@linkcode parseGlob | parsed} into a glob). Relative patterns are resolved against the current working directory, and yield relative paths. Only the subtrees below the {@link Glob.prototype.getLiteralPrefixes | literal prefixes} of the pattern are visited.
+   */
+  globSync(pattern: Glob | string): Path[];
+
+  /**
+   * Returns a stream of the contents of a data file. The stream errors if the path addresses a directory (or nothing).
+   */
+  readStream(path: Pathish): ReadableStream<Uint8Array>;
+
+  /**
+   * Returns a stream which writes a data file at the given path. The file is only guaranteed to be complete once the stream has been closed successfully; the stream errors if the write would fail.
+   */
+  writeStream(path: Pathish, mode?: Mode): WritableStream<Uint8Array>;
+
+  /**
+   * Reads up to `length` bytes of a data file, starting at byte `offset`. Returns fewer bytes if the file ends before `offset + length`. Rejects if the path addresses a directory (or nothing), or if `offset` or `length` is not a natural number.
+   */
+  readRange(path: Pathish, offset: number, length: number): Promise<Uint8Array>;
+  /**
+   * Synchronously reads up to `length` bytes of a data file, starting at byte `offset`. Returns fewer bytes if the file ends before `offset + length`. Throws if the path addresses a directory (or nothing), or if `offset` or `length` is not a natural number.
+   */
+  readRangeSync(path: Pathish, offset: number, length: number): Uint8Array;
+
+  /**
+   * Appends data to the data file at the given path. If there is nothing at the path, creates a data file with the given data (regardless of the `mode`). If there is a directory at the path, the `mode` determines whether to reject, to do nothing, or to replace the directory with a data file.
+   */
+  append(path: Pathish, data: Uint8Array, mode?: Mode): Promise<void>;
+  /**
+   * Synchronously appends data to the data file at the given path. If there is nothing at the path, creates a data file with the given data (regardless of the `mode`). If there is a directory at the path, the `mode` determines whether to throw, to do nothing, or to replace the directory with a data file.
+   */
+  appendSync(path: Pathish, data: Uint8Array, mode?: Mode): void;
+
+  /**
+   * Returns a filesystem whose root is the directory at the given path, see {@linkcode SubtreeFs}. Throws if the path does not address a directory.
+   */
+  subtree(path: Pathish): SimpleFilesystem;
+}
+
+/**
+ * A difference between two files, as reported by {@linkcode SimpleFilesystemExt.diff} and {@linkcode SimpleFilesystemExt.diffSync}. The `path` is relative to the two compared files.
+ *
+ * - `"added"`: there is a file of the given `fileKind` in the other filesystem only. Its contents (if it is a directory) are not reported separately.
+ * - `"removed"`: there is a file of the given `fileKind` in this filesystem only. Its contents (if it is a directory) are not reported separately.
+ * - `"modified"`: there are data files with different contents in both filesystems.
+ * - `"kindChanged"`: there is a file of kind `from` in this filesystem and a file of kind `to` in the other filesystem. The contents of the directory are not reported separately.
+ */
+export type FileChange =
+  | { kind: "added"; path: Path; fileKind: "directory" | "data" }
+  | { kind: "removed"; path: Path; fileKind: "directory" | "data" }
+  | { kind: "modified"; path: Path }
+  | {
+    kind: "kindChanged";
+    path: Path;
+    from: "directory" | "data";
+    to: "directory" | "data";
+  };
+
+/**
+ * Options for {@linkcode SimpleFilesystemExt.diff} and {@linkcode SimpleFilesystemExt.diffSync}. All options are optional.
+ *
+ * - `path`: the file of this filesystem to compare, defaults to the current working directory.
+ * - `otherPath`: the file of the other filesystem to compare, defaults to its current working directory.
+ */
+export type DiffOptions = { path?: Pathish; otherPath?: Pathish };
+
+/**
+ * A file visited by {@linkcode SimpleFilesystemExt.walk} or {@linkcode SimpleFilesystemExt.walkSync}.
+ *
+ * The `path` is obtained by appending the components leading to the file to the path at which the walk started, so it is relative if and only if the walk started at a relative path.
+ */
+export type WalkEntry = { path: Path; kind: "directory" | "data" };
+
+/**
+ * Options for {@linkcode SimpleFilesystemExt.walk} and {@linkcode SimpleFilesystemExt.walkSync}. All options are optional.
+ *
+ * - `order`: whether to visit files `"depth-first"` (the default, every directory is yielded before its contents) or `"breadth-first"` (all files of depth `n` are yielded before any file of depth `n + 1`).
+ * - `maxDepth`: the maximal depth of yielded files; the direct children of the starting directory have depth `1`. Defaults to `Infinity`.
+ * - `include`: if given, only entries for which it returns `true` are yielded. Does not affect which directories are descended into.
+ * - `exclude`: if given, entries for which it returns `true` are not yielded. Does not affect which directories are descended into.
+ * - `prune`: if given, directories for which it returns `true` are not descended into. Does not affect whether the directory itself is yielded.
+ */
+export type WalkOptions = {
+  order?: "depth-first" | "breadth-first";
+  maxDepth?: number;
+  include?: (entry: WalkEntry) => boolean;
+  exclude?: (entry: WalkEntry) => boolean;
+  prune?: (entry: WalkEntry) => boolean;
+};
+
+/**
+ * Adds to any {@linkcode SimpleFilesystem} the methods of the {@linkcode SimpleFilesystemExt} interface by providing default default implementations, implemented purely in terms of the methods of the {@linkcode SimpleFilesystem}  interface.
+ */
+export class FilesystemExt<Fs extends SimpleFilesystem>
+  implements SimpleFilesystem, SimpleFilesystemExt {
+  fs: Fs;
+
+  /**
+   * Wraps an arbitrary {@linkcode SimpleFilesystem}, adding to it default implementations of the {@linkcode SimpleFilesystemExt} interface.
+   */
+  constructor(fs: Fs) {
+    this.fs = fs;
+  }
+
+  pwd(): Path {
+    return this.fs.pwd();
+  }
+
+  cd(path: Pathish): void {
+    return this.fs.cd(path);
+  }
+
+  ls(path?: Pathish): Promise<Set<string>> {
+    return this.fs.ls(path);
+  }
+
+  lsSync(path?: Pathish): Set<string> {
+    return this.fs.lsSync(path);
+  }
+
+  stat(path: Pathish): Promise<"directory" | "data" | "nothing"> {
+    return this.fs.stat(path);
+  }
+
+  statSync(path: Pathish): "directory" | "data" | "nothing" {
+    return this.fs.statSync(path);
+  }
+
+  read(path: Pathish): Promise<Uint8Array> {
+    return this.fs.read(path);
+  }
+
+  readSync(path: Pathish): Uint8Array {
+    return this.fs.readSync(path);
+  }
+
+  write(path: Pathish, data: Uint8Array, mode?: Mode): Promise<void> {
+    return this.fs.write(path, data, mode);
+  }
+
+  writeSync(path: Pathish, data: Uint8Array, mode?: Mode): void {
+    return this.fs.writeSync(path, data, mode);
+  }
+
+  mkdir(path: Pathish, mode?: Mode): Promise<void> {
+    return this.fs.mkdir(path, mode);
+  }
+
+  mkdirSync(path: Pathish, mode?: Mode): void {
+    return this.fs.mkdirSync(path, mode);
+  }
+
+  remove(path: Pathish): Promise<void> {
+    return this.fs.remove(path);
+  }
+
+  removeSync(path: Pathish): void {
+    return this.fs.removeSync(path);
+  }
+
+  copy(src: Pathish, dst: Pathish, mode?: Mode): Promise<void> {
+    return this.fs.copy(src, dst, mode);
+  }
+
+  copySync(src: Pathish, dst: Pathish, mode?: Mode): void {
+    return this.fs.copySync(src, dst, mode);
+  }
+
+  move(src: Pathish, dst: Pathish, mode?: Mode): Promise<void> {
+    return this.fs.move(src, dst, mode);
+  }
+
+  moveSync(src: Pathish, dst: Pathish, mode?: Mode): void {
+    return this.fs.moveSync(src, dst, mode);
+  }
+
+  /**
+   * Uses the `readStream` method of the wrapped filesystem if it has one. Otherwise, reads the complete file when the stream is first pulled from, and then emits it in chunks.
+   */
+  readStream(path: Pathish): ReadableStream<Uint8Array> {
+    if (this.fs.readStream !== undefined) {
+      return this.fs.readStream(path);
+    }
+
+    // Resolve now, so that later changes of the working directory do not matter.
+    const target = this.absolutePath(path);
+    let data: Uint8Array | undefined = undefined;
+    let offset = 0;
+
+    return new ReadableStream({
+      pull: async (controller) => {
+        if (data === undefined) {
+          data = await this.fs.read(target);
+        }
+
+        if (offset >= data.length) {
+          controller.close();
+        } else {
+          controller.enqueue(data.subarray(offset, offset + STREAM_CHUNK_SIZE));
+          offset += STREAM_CHUNK_SIZE;
+        }
+      },
+    });
+  }
+
+  /**
+   * Uses the `writeStream` method of the wrapped filesystem if it has one. Otherwise, buffers all chunks in memory, and writes them as a whole when the stream is closed.
+   */
+  writeStream(path: Pathish, mode?: Mode): WritableStream<Uint8Array> {
+    if (this.fs.writeStream !== undefined) {
+      return this.fs.writeStream(path, mode);
+    }
+
+    // Resolve now, so that later changes of the working directory do not matter.
+    const target = this.absolutePath(path);
+    const buffer = new ChunkBuffer();
+
+    return new WritableStream({
+      write: (chunk) => {
+        buffer.append(chunk);
+      },
+      close: () => {
+        return this.fs.write(target, buffer.contents(), mode);
+      },
+    });
+  }
+
+  /**
+   * Uses the `readRange` method of the wrapped filesystem if it has one. Otherwise, reads the complete file and returns the requested range.
+   */
+  async readRange(
+    path: Pathish,
+    offset: number,
+    length: number,
+  ): Promise<Uint8Array> {
+    if (this.fs.readRange !== undefined) {
+      return this.fs.readRange(path, offset, length);
+    }
+
+    checkRange(offset, length);
+    const data = await this.fs.read(path);
+    return data.slice(offset, offset + length);
+  }
+
+  /**
+   * Uses the `readRangeSync` method of the wrapped filesystem if it has one. Otherwise, reads the complete file and returns the requested range.
+   */
+  readRangeSync(path: Pathish, offset: number, length: number): Uint8Array {
+    if (this.fs.readRangeSync !== undefined) {
+      return this.fs.readRangeSync(path, offset, length);
+    }
+
+    checkRange(offset, length);
+    const data = this.fs.readSync(path);
+    return data.slice(offset, offset + length);
+  }
+
+  /**
+   * Uses the `append` method of the wrapped filesystem if it has one. Otherwise, reads the complete file and writes it back with the data appended.
+   */
+  async append(path: Pathish, data: Uint8Array, mode?: Mode): Promise<void> {
+    if (this.fs.append !== undefined) {
+      return this.fs.append(path, data, mode);
+    }
+
+    let stat: "directory" | "data" | "nothing" = "nothing";
+    try {
+      stat = await this.fs.stat(path);
+    } catch {
+      // Missing parent directories, `write` will create them.
+    }
+
+    if (stat === "data") {
+      const old = await this.fs.read(path);
+      return this.fs.write(path, concatBytes(old, data), "assertive");
+    } else {
+      return this.fs.write(path, data, mode);
+    }
+  }
+
+  /**
+   * Uses the `appendSync` method of the wrapped filesystem if it has one. Otherwise, reads the complete file and writes it back with the data appended.
+   */
+  appendSync(path: Pathish, data: Uint8Array, mode?: Mode): void {
+    if (this.fs.appendSync !== undefined) {
+      return this.fs.appendSync(path, data, mode);
+    }
+
+    let stat: "directory" | "data" | "nothing" = "nothing";
+    try {
+      stat = this.fs.statSync(path);
+    } catch {
+      // Missing parent directories, `writeSync` will create them.
+    }
+
+    if (stat === "data") {
+      const old = this.fs.readSync(path);
+      return this.fs.writeSync(path, concatBytes(old, data), "assertive");
+    } else {
+      return this.fs.writeSync(path, data, mode);
+    }
+  }
+
+  /** @ignore */
+  private absolutePath(path: Pathish): Path {
+    const path_ = Path.fromPathish(path);
+    return path_.isAbsolute() ? path_ : this.fs.pwd().concat(path_);
+  }
+
+  async readString(path: Pathish): Promise<string> {
+    const bytes = await this.fs.read(path);
+    const decoder = new TextDecoder("utf-8");
+    return decoder.decode(bytes);
+  }
+
+  readStringSync(path: Pathish): string {
+    const bytes = this.fs.readSync(path);
+    const decoder = new TextDecoder("utf-8");
+    return decoder.decode(bytes);
+  }
+
+  writeString(path: Pathish, data: string, mode?: Mode): Promise<void> {
+    const encoder = new TextEncoder();
+    const bytes = encoder.encode(data);
+    return this.fs.write(path, bytes, mode);
+  }
+
+  writeStringSync(path: Pathish, data: string, mode?: Mode): void {
+    const encoder = new TextEncoder();
+    const bytes = encoder.encode(data);
+    return this.fs.writeSync(path, bytes, mode);
+  }
+
+  async ensureNot(path: Pathish, mode?: Mode): Promise<void> {
+    let stat = "nothing";
+    try {
+      stat = await this.fs.stat(path);
+    } catch {
+      // Yay, nothing is at the path.
+      // Nothing else to do.
+      return;
+    }
+
+    if (stat !== "nothing") {
+      if (mode === "assertive") {
+        return this.fs.remove(path);
+      } else {
+        throw new Error(
+          "Would have to delete a file for `ensureNotSync`, but the `mode` was " +
+            mode,
+        );
+      }
+    }
+  }
+
+  ensureNotSync(path: Pathish, mode?: Mode): void {
+    let stat = "nothing";
+    try {
+      stat = this.fs.statSync(path);
+    } catch {
+      // Yay, nothing is at the path.
+      // Nothing else to do.
+      return;
+    }
+
+    if (stat !== "nothing") {
+      if (mode === "assertive") {
+        this.fs.removeSync(path);
+      } else {
+        throw new Error(
+          "Would have to delete a file for `ensureNotSync`, but the `mode` was " +
+            mode,
+        );
+      }
+    }
+  }
+
+  eq(other: ReadableSimpleFilesystem): boolean {
+    return fileEq(this.fs, this.pwd(), other, other.pwd());
+  }
+
+  async diff(
+    other: ReadableSimpleFilesystem,
+    options: DiffOptions = {},
+  ): Promise<FileChange[]> {
+    const changes: FileChange[] = [];
+
+    await diffFiles(
+      this.fs,
+      Path.fromPathish(options.path ?? this.pwd()),
+      other,
+      Path.fromPathish(options.otherPath ?? other.pwd()),
+      Path.relative([]),
+      changes,
+    );
+
+    return changes.sort((a, b) => Path.compare(a.path, b.path));
+  }
+
+  diffSync(
+    other: ReadableSimpleFilesystem,
+    options: DiffOptions = {},
+  ): FileChange[] {
+    const changes: FileChange[] = [];
+
+    diffFilesSync(
+      this.fs,
+      Path.fromPathish(options.path ?? this.pwd()),
+      other,
+      Path.fromPathish(options.otherPath ?? other.pwd()),
+      Path.relative([]),
+      changes,
+    );
+
+    return changes.sort((a, b) => Path.compare(a.path, b.path));
+  }
+
+  async *walk(
+    path: Pathish = Path.relative([]),
+    options: WalkOptions = {},
+  ): AsyncGenerator<WalkEntry> {
+    const maxDepth = options.maxDepth ?? Infinity;
+    const pending: [WalkEntry, number][] = [];
+
+    const enqueueChildren = async (dir: Path, depth: number) => {
+      const children: [WalkEntry, number][] = [];
+
+      for (const component of await this.fs.ls(dir)) {
+        const childPath = dir.pushBack(component);
+        const kind = await this.fs.stat(childPath);
+
+        if (kind !== "nothing") {
+          children.push([{ path: childPath, kind }, depth]);
+        }
+      }
+
+      enqueueWalkEntries(pending, children, options);
+    };
+
+    const start = Path.fromPathish(path);
+    if (maxDepth >= 1) {
+      await enqueueChildren(start, 1);
+    } else {
+      // Still reject if the path does not address a directory.
+      await this.fs.ls(start);
+    }
+
+    while (pending.length > 0) {
+      const [entry, depth] = nextWalkEntry(pending, options);
+
+      if (shouldYieldWalkEntry(entry, options)) {
+        yield entry;
+      }
+
+      if (shouldDescendWalkEntry(entry, depth, maxDepth, options)) {
+        await enqueueChildren(entry.path, depth + 1);
+      }
+    }
+  }
+
+  *walkSync(
+    path: Pathish = Path.relative([]),
+    options: WalkOptions = {},
+  ): Generator<WalkEntry> {
+    const maxDepth = options.maxDepth ?? Infinity;
+    const pending: [WalkEntry, number][] = [];
+
+    const enqueueChildren = (dir: Path, depth: number) => {
+      const children: [WalkEntry, number][] = [];
+
+      for (const component of this.fs.lsSync(dir)) {
+        const childPath = dir.pushBack(component);
+        const kind = this.fs.statSync(childPath);
+
+        if (kind !== "nothing") {
+          children.push([{ path: childPath, kind }, depth]);
+        }
+      }
+
+      enqueueWalkEntries(pending, children, options);
+    };
+
+    const start = Path.fromPathish(path);
+    if (maxDepth >= 1) {
+      enqueueChildren(start, 1);
+    } else {
+      // Still throw if the path does not address a directory.
+      this.fs.lsSync(start);
+    }
+
+    while (pending.length > 0) {
+      const [entry, depth] = nextWalkEntry(pending, options);
+
+      if (shouldYieldWalkEntry(entry, options)) {
+        yield entry;
+      }
+
+      if (shouldDescendWalkEntry(entry, depth, maxDepth, options)) {
+        enqueueChildren(entry.path, depth + 1);
+      }
+    }
+  }
+
+  async glob(pattern: Glob | string): Promise<Path[]> {
+    const glob = Glob.fromGlobish(pattern);
+    const found = new PathSet();
+
+    for (const prefix of new PathSet(glob.getLiteralPrefixes())) {
+      let kind: "directory" | "data" | "nothing" = "nothing";
+      try {
+        kind = await this.fs.stat(prefix);
+      } catch {
+        // The parent of the prefix does not exist, so nothing can match.
+        continue;
+      }
+
+      if (kind !== "nothing" && glob.matches(prefix)) {
+        found.add(prefix);
+      }
+
+      if (kind === "directory") {
+        const entries = this.walk(prefix, {
+          include: (entry) => glob.matches(entry.path),
+        });
+
+        for await (const entry of entries) {
+          found.add(entry.path);
+        }
+      }
+    }
+
+    return [...found];
+  }
+
+  globSync(pattern: Glob | string): Path[] {
+    const glob = Glob.fromGlobish(pattern);
+    const found = new PathSet();
+
+    for (const prefix of new PathSet(glob.getLiteralPrefixes())) {
+      let kind: "directory" | "data" | "nothing" = "nothing";
+      try {
+        kind = this.fs.statSync(prefix);
+      } catch {
+        // The parent of the prefix does not exist, so nothing can match.
+        continue;
+      }
+
+      if (kind !== "nothing" && glob.matches(prefix)) {
+        found.add(prefix);
+      }
+
+      if (kind === "directory") {
+        const entries = this.walkSync(prefix, {
+          include: (entry) => glob.matches(entry.path),
+        });
+
+        for (const entry of entries) {
+          found.add(entry.path);
+        }
+      }
+    }
+
+    return [...found];
+  }
+
+  subtree(path: Pathish): SubtreeFs {
+    return new SubtreeFs(this.fs, this.absolutePath(path));
+  }
+}
+
+function checkRange(offset: number, length: number) {
+  if (
+    !Number.isSafeInteger(offset) || offset < 0 ||
+    !Number.isSafeInteger(length) || length < 0
+  ) {
+    throw new RangeError(
+      `Byte ranges must have a natural number as offset and length, but got offset ${offset} and length ${length}.`,
+    );
+  }
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const concatenated = new Uint8Array(a.length + b.length);
+  concatenated.set(a);
+  concatenated.set(b, a.length);
+  return concatenated;
+}
+
+/**
+ * A serialisable description of changes to a directory (or a single file), as created by {@linkcode createPatch} and applied by {@linkcode applyPatch}. A patch contains only strings and plain objects, so it can be converted to and from JSON without loss.
+ *
+ * The entries are applied in order. Their `path`s are relative {@linkcode Path | Paths} rendered as strings (see {@linkcode Path.prototype.toString}), resolved against the patched directory; `"."` addresses the patched directory itself.
+ */
+export type Patch = PatchEntry[];
+
+/**
+ * A single change of a {@linkcode Patch}.
+ *
+ * - `"add"`: creates the given `file` at `path`, where there should be nothing yet.
+ * - `"remove"`: removes the file (and, for directories, all its contents) at `path`.
+ * - `"replace"`: replaces the file at `path`, which should exist already, with the given `file`.
+ */
+export type PatchEntry =
+  | { kind: "add"; path: string; file: PatchFile }
+  | { kind: "remove"; path: string }
+  | { kind: "replace"; path: string; file: PatchFile };
+
+/**
+ * The contents of a file in a {@linkcode Patch}: either a data file whose contents are given as a [base64](https://datatracker.ietf.org/doc/html/rfc4648#section-4) string, or a directory which maps {@link Path.isComponent | components} to the files it contains.
+ */
+export type PatchFile =
+  | { data: string }
+  | { directory: { [component: string]: PatchFile } };
+
+/**
+ * A {@linkcode PatchEntry} which {@linkcode applyPatch} did not apply.
+ *
+ * - `"exists"`: an `"add"` entry would have overwritten an existing file.
+ * - `"missing"`: a `"replace"` entry found no file to replace.
+ * - `"failed"`: the filesystem threw (or rejected) the given `error` when applying the entry, or the entry was malformed.
+ */
+export type PatchConflict =
+  | { entry: PatchEntry; reason: "exists" | "missing" }
+  | { entry: PatchEntry; reason: "failed"; error: unknown };
+
+/**
+ * Returns a {@linkcode Patch} which turns the file at `options.path` of the `fs` filesystem into the file at `options.otherPath` of the `other` filesystem (both defaulting to the respective current working directory). The patch contains one entry per {@link SimpleFilesystemExt.diff | difference}, in the same order.
+ */
+export async function createPatch(
+  fs: ReadableSimpleFilesystem,
+  other: ReadableSimpleFilesystem,
+  options: DiffOptions = {},
+): Promise<Patch> {
+  const otherPath = Path.fromPathish(options.otherPath ?? other.pwd());
+  const changes = await new FilesystemExt(new ReadOnlyFs(fs)).diff(
+    other,
+    options,
+  );
+  const patch: Patch = [];
+
+  for (const change of changes) {
+    const path = change.path.toString();
+
+    if (change.kind === "removed") {
+      patch.push({ kind: "remove", path });
+    } else {
+      const file = await readPatchFile(
+        other,
+        otherPath.concat(change.path),
+      );
+      patch.push({
+        kind: change.kind === "added" ? "add" : "replace",
+        path,
+        file,
+      });
+    }
+  }
+
+  return patch;
+}
+
+/**
+ * Synchronously returns a {@linkcode Patch} which turns the file at `options.path` of the `fs` filesystem into the file at `options.otherPath` of the `other` filesystem (both defaulting to the respective current working directory). The patch contains one entry per {@link SimpleFilesystemExt.diffSync | difference}, in the same order.
+ */
+export function createPatchSync(
+  fs: ReadableSimpleFilesystem,
+  other: ReadableSimpleFilesystem,
+  options: DiffOptions = {},
+): Patch {
+  const otherPath = Path.fromPathish(options.otherPath ?? other.pwd());
+  const changes = new FilesystemExt(new ReadOnlyFs(fs)).diffSync(
+    other,
+    options,
+  );
+
+  return changes.map((change): PatchEntry => {
+    const path = change.path.toString();
+
+    if (change.kind === "removed") {
+      return { kind: "remove", path };
+    } else {
+      const file = readPatchFileSync(other, otherPath.concat(change.path));
+      return { kind: change.kind === "added" ? "add" : "replace", path, file };
+    }
+  });
+}
+
+/**
+ * Applies a {@linkcode Patch} to the current working directory of a filesystem, and returns all entries which were not applied because of {@link PatchConflict | conflicts}. Applying continues after a conflict.
+ *
+ * The `mode` determines how to handle `"add"` entries for paths at which there already is a file, and `"replace"` entries for paths at which there is nothing: `"timid"` (the default) skips and reports them, `"placid"` silently skips them, and `"assertive"` applies them anyway. Entries which fail for any other reason are always reported; in particular, entries whose paths are absolute or lead outside of the current working directory are never applied, but reported with a {@linkcode PathEscapeError}. Removing a file which does not exist is not a conflict, and neither are missing parent directories, which are created as needed.
+ */
+export async function applyPatch(
+  fs: SimpleFilesystem,
+  patch: Patch,
+  mode: Mode = "timid",
+): Promise<PatchConflict[]> {
+  const conflicts: PatchConflict[] = [];
+
+  for (const entry of patch) {
+    try {
+      const path = Path.resolveWithin(fs.pwd(), entry.path);
+
+      if (entry.kind === "remove") {
+        await fs.remove(path);
+        continue;
+      }
+
+      let exists: boolean;
+      try {
+        exists = (await fs.stat(path)) !== "nothing";
+      } catch {
+        // A missing parent directory means that there is nothing here yet.
+        exists = false;
+      }
+      const decision = decidePatchEntry(entry, exists, mode);
+
+      if (decision === true) {
+        await writePatchFile(fs, path, entry.file);
+      } else if (decision !== false) {
+        conflicts.push(decision);
+      }
+    } catch (error) {
+      conflicts.push({ entry, reason: "failed", error });
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Synchronously applies a {@linkcode Patch} to the current working directory of a filesystem, and returns all entries which were not applied because of {@link PatchConflict | conflicts}. See {@linkcode applyPatch} for the details.
+ */
+export function applyPatchSync(
+  fs: SimpleFilesystem,
+  patch: Patch,
+  mode: Mode = "timid",
+): PatchConflict[] {
+  const conflicts: PatchConflict[] = [];
+
+  for (const entry of patch) {
+    try {
+      const path = Path.resolveWithin(fs.pwd(), entry.path);
+
+      if (entry.kind === "remove") {
+        fs.removeSync(path);
+        continue;
+      }
+
+      const exists = statOrNothing(fs, path) !== "nothing";
+      const decision = decidePatchEntry(entry, exists, mode);
+
+      if (decision === true) {
+        writePatchFileSync(fs, path, entry.file);
+      } else if (decision !== false) {
+        conflicts.push(decision);
+      }
+    } catch (error) {
+      conflicts.push({ entry, reason: "failed", error });
+    }
+  }
+
+  return conflicts;
+}
+
+// Decides whether to apply an `"add"` or `"replace"` entry, given whether there is a file at its path: returns `true` to apply it, `false` to skip it silently, or the conflict to report.
+function decidePatchEntry(
+  entry: PatchEntry & { kind: "add" | "replace" },
+  exists: boolean,
+  mode: Mode,
+): PatchConflict | boolean {
+  const conflicting = entry.kind === "add" ? exists : !exists;
+
+  if (!conflicting || mode === "assertive") {
+    return true;
+  } else if (mode === "placid") {
+    return false;
+  } else {
+    return { entry, reason: entry.kind === "add" ? "exists" : "missing" };
+  }
+}
+
+async function readPatchFile(
+  fs: ReadableSimpleFilesystem,
+  path: Path,
+): Promise<PatchFile> {
+  if ((await fs.stat(path)) === "data") {
+    return { data: encodeBase64(await fs.read(path)) };
+  } else {
+    const directory: { [component: string]: PatchFile } = {};
+
+    for (const component of await fs.ls(path)) {
+      directory[component] = await readPatchFile(fs, path.pushBack(component));
+    }
+
+    return { directory };
+  }
+}
+
+function readPatchFileSync(
+  fs: ReadableSimpleFilesystem,
+  path: Path,
+): PatchFile {
+  if (fs.statSync(path) === "data") {
+    return { data: encodeBase64(fs.readSync(path)) };
+  } else {
+    const directory: { [component: string]: PatchFile } = {};
+
+    for (const component of fs.lsSync(path)) {
+      directory[component] = readPatchFileSync(fs, path.pushBack(component));
+    }
+
+    return { directory };
+  }
+}
+
+// Writes a file of a patch to the given path, replacing whatever was there.
+async function writePatchFile(
+  fs: SimpleFilesystem,
+  path: Path,
+  file: PatchFile,
+) {
+  if ("data" in file) {
+    await fs.write(path, decodeBase64(file.data), "assertive");
+  } else {
+    await fs.mkdir(path, "assertive");
+
+    for (const component in file.directory) {
+      await writePatchFile(
+        fs,
+        path.pushBack(component),
+        file.directory[component],
+      );
+    }
+  }
+}
+
+// Writes a file of a patch to the given path, replacing whatever was there.
+function writePatchFileSync(fs: SimpleFilesystem, path: Path, file: PatchFile) {
+  if ("data" in file) {
+    fs.writeSync(path, decodeBase64(file.data), "assertive");
+  } else {
+    fs.mkdirSync(path, "assertive");
+
+    for (const component in file.directory) {
+      writePatchFileSync(
+        fs,
+        path.pushBack(component),
+        file.directory[component],
+      );
+    }
+  }
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = "";
+
+  // Chunked, since spreading huge arrays into arguments overflows the stack.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+
+  return btoa(binary);
+}
+
+function decodeBase64(str: string): Uint8Array {
+  const binary = atob(str);
+  const bytes = new Uint8Array(binary.length);
+
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+
+  return bytes;
+}
+
+const STREAM_CHUNK_SIZE = 64 * 1024;
+
+// Collects copies of the chunks written to a stream (writers may reuse their chunks), and concatenates them only once, when all chunks are known.
+class ChunkBuffer {
+  chunks: Uint8Array[];
+  length: number;
+
+  constructor() {
+    this.chunks = [];
+    this.length = 0;
+  }
+
+  append(chunk: Uint8Array) {
+    this.chunks.push(chunk.slice());
+    this.length += chunk.length;
+  }
+
+  contents(): Uint8Array {
+    if (this.chunks.length === 1) {
+      return this.chunks[0];
+    }
+
+    const concatenated = new Uint8Array(this.length);
+    let offset = 0;
+
+    for (const chunk of this.chunks) {
+      concatenated.set(chunk, offset);
+      offset += chunk.length;
+    }
+
+    return concatenated;
+  }
+}
+
+// The pending entries of a walk are a stack for depth-first walks, and a queue for breadth-first walks. For depth-first walks, we push the children in reverse order, so that they are popped in the order in which `ls` listed them.
+function enqueueWalkEntries(
+  pending: [WalkEntry, number][],
+  children: [WalkEntry, number][],
+  options: WalkOptions,
+) {
+  if (options.order === "breadth-first") {
+    pending.push(...children);
+  } else {
+    pending.push(...children.reverse());
+  }
+}
+
+function nextWalkEntry(
+  pending: [WalkEntry, number][],
+  options: WalkOptions,
+): [WalkEntry, number] {
+  return options.order === "breadth-first" ? pending.shift()! : pending.pop()!;
+}
+
+function shouldYieldWalkEntry(entry: WalkEntry, options: WalkOptions): boolean {
+  if (options.include !== undefined && !options.include(entry)) {
+    return false;
+  }
+
+  return options.exclude === undefined || !options.exclude(entry);
+}
+
+function shouldDescendWalkEntry(
+  entry: WalkEntry,
+  depth: number,
+  maxDepth: number,
+  options: WalkOptions,
+): boolean {
+  return entry.kind === "directory" && depth < maxDepth &&
+    (options.prune === undefined || !options.prune(entry));
+}
+
+function fileEq(
+  fs1: ReadableSimpleFilesystem,
+  path1: Path,
+  fs2: ReadableSimpleFilesystem,
+  path2: Path,
+): boolean {
+  const stat1 = fs1.statSync(path1);
+  const stat2 = fs2.statSync(path2);
+
+  if (stat1 !== stat2) {
+    return false;
+  }
+
+  if (stat1 === "nothing") {
+    return true;
+  } else if (stat1 === "data") {
+    return bytesEqual(fs1.readSync(path1), fs2.readSync(path2));
+  } else {
+    // Got two directories.
+    const ls1 = fs1.lsSync(path1);
+    const ls2 = fs2.lsSync(path2);
+
+    if (ls1.size !== ls2.size) {
+      return false;
+    } else {
+      return [...ls1].every((comp) => {
+        return fileEq(
+          fs1,
+          path1.concat(Path.relative([comp])),
+          fs2,
+          path2.concat(Path.relative([comp])),
+        );
+      });
+    }
+  }
+}
+
+function bytesEqual(data1: Uint8Array, data2: Uint8Array): boolean {
+  if (data1.length !== data2.length) {
+    return false;
+  }
+
+  for (let i = 0; i < data1.length; i++) {
+    if (data1[i] !== data2[i]) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+// Records the change between two files of the given kinds at the given relative path, if their kinds alone determine it. Returns whether the contents of the files still need to be compared.
+function diffKinds(
+  kind1: "directory" | "data" | "nothing",
+  kind2: "directory" | "data" | "nothing",
+  relative: Path,
+  changes: FileChange[],
+): boolean {
+  if (kind1 === "nothing") {
+    if (kind2 !== "nothing") {
+      changes.push({ kind: "added", path: relative, fileKind: kind2 });
+    }
+
+    return false;
+  } else if (kind2 === "nothing") {
+    changes.push({ kind: "removed", path: relative, fileKind: kind1 });
+    return false;
+  } else if (kind1 !== kind2) {
+    changes.push({
+      kind: "kindChanged",
+      path: relative,
+      from: kind1,
+      to: kind2,
+    });
+    return false;
+  } else {
+    return true;
+  }
+}
+
+// Appends the changes between two files (whose paths relative to the compared roots are both `relative`) to `changes`, in no particular order.
+function diffFilesSync(
+  fs1: ReadableSimpleFilesystem,
+  path1: Path,
+  fs2: ReadableSimpleFilesystem,
+  path2: Path,
+  relative: Path,
+  changes: FileChange[],
+) {
+  const kind = fs1.statSync(path1);
+
+  if (!diffKinds(kind, fs2.statSync(path2), relative, changes)) {
+    return;
+  } else if (kind === "data") {
+    if (!bytesEqual(fs1.readSync(path1), fs2.readSync(path2))) {
+      changes.push({ kind: "modified", path: relative });
+    }
+  } else {
+    const components = new Set([...fs1.lsSync(path1), ...fs2.lsSync(path2)]);
+
+    for (const comp of components) {
+      diffFilesSync(
+        fs1,
+        path1.pushBack(comp),
+        fs2,
+        path2.pushBack(comp),
+        relative.pushBack(comp),
+        changes,
+      );
+    }
+  }
+}
+
+// Asynchronous version of `diffFilesSync`.
+async function diffFiles(
+  fs1: ReadableSimpleFilesystem,
+  path1: Path,
+  fs2: ReadableSimpleFilesystem,
+  path2: Path,
+  relative: Path,
+  changes: FileChange[],
+) {
+  const kind = await fs1.stat(path1);
+
+  if (!diffKinds(kind, await fs2.stat(path2), relative, changes)) {
+    return;
+  } else if (kind === "data") {
+    if (!bytesEqual(await fs1.read(path1), await fs2.read(path2))) {
+      changes.push({ kind: "modified", path: relative });
+    }
+  } else {
+    const components = new Set([
+      ...await fs1.ls(path1),
+      ...await fs2.ls(path2),
+    ]);
+
+    for (const comp of components) {
+      await diffFiles(
+        fs1,
+        path1.pushBack(comp),
+        fs2,
+        path2.pushBack(comp),
+        relative.pushBack(comp),
+        changes,
+      );
+    }
+  }
+}
+
+const NO_SUCH_FILE = "Addressed a file but there is no file of that name.";
+const EXPECTED_DIRECTORY_GOT_DATA =
+  "Wanted to address a directory but there was a data file instead.";
+const EXPECTED_DATA_GOT_DIRECTORY =
+  "Wanted to address a data file but there was a directory instead.";
+const CANNOT_TURN_ROOT_INTO_DATA_FILE =
+  "Tried to turn the root of a filesystem into a data file, but that is not allowed";
+const CANNOT_COPY_OR_MOVE_INTO_ROOT =
+  "Tried to copy or move a file to the root of a filesystem, but that is not allowed";
+const CANNOT_MOVE_INTO_ITSELF =
+  "Tried to move a file to its own path or into one of its own descendants, but that is not allowed";
+const CANNOT_MOVE_ONTO_ANCESTOR =
+  "Tried to move a file onto one of its own ancestors, but that is not allowed";
+const CANNOT_MOVE_ROOT =
+  "Tried to move the root of a filesystem, but that is not allowed";
+const CANNOT_DELETE_ROOT =
+  "Tried to delete the root of a filesystem, but that is not allowed";
+const COMPONENT_POLICY_VIOLATION =
+  "Tried to create a file whose name is not allowed by the component policy of the filesystem.";
+const CASE_COLLISION =
+  "Tried to create a file whose name differs only in case from an existing file in the same directory, but the component policy of the filesystem is `portable`.";
+const INVALID_RANGE =
+  "Byte ranges must have a natural number as offset and length.";
+const SNAPSHOT_POLICY_MISMATCH =
+  "Tried to restore a snapshot of a filesystem with a different component policy.";
+const NOT_MOUNTED =
+  "Tried to create a file at a path which does not belong to any mounted filesystem.";
+const CANNOT_CHANGE_MOUNT_POINT =
+  "Tried to replace or remove a mount point, or a directory containing mount points, but that is not allowed.";
+const ALREADY_MOUNTED =
+  "Tried to mount a filesystem at a path at which another filesystem is mounted already.";
+const NO_DIRECTORY_FOR_SUBTREE =
+  "Tried to create a subtree filesystem, but there is no directory at its root path.";
+const READ_ONLY = "Tried to change a read-only filesystem.";
+const TIMID =
+  "A filesystem oepration of mode `timid` (the default mode) would have overwritten data, so it threw this error instead.";
+
+/**
+ * An implementation of {@linkcode SimpleFilesystem} that stores data purely in memory.
+ */
+export class MemoryFs implements SimpleFilesystem {
+  /** @ignore */
+  private root: MemoryDirectory;
+  /** @ignore */
+  private workingDirectory: Path;
+  /** @ignore */
+  private componentPolicy: ComponentPolicy;
+  // Directories owned by this token may be mutated in place, all others are shared (with snapshots, or with other places in the tree) and must be copied before mutating them.
+  /** @ignore */
+  private owner: object;
+  /** @ignore */
+  private listeners: Set<MemoryFsListener>;
+  // The states to roll back to for all currently running transactions, in the order in which they were started (async transactions may overlap without being nested).
+  /** @ignore */
+  private runningTransactions: TransactionState[];
+  // Events of the currently running transaction(s), delivered only once no transaction is running anymore.
+  /** @ignore */
+  private pendingEvents: MemoryFsEvent[];
+
+  /**
+   * Creates a new in-memory filesystem.
+   *
+   * The root of the new filesystem is an empty directory. The initial current working directory is `/` (i.e., that one directory).
+   *
+   * All operations which create files reject (or throw) if the name of a created file violates `options.componentPolicy` (see {@linkcode ComponentPolicy}, defaults to `"minimal"`).
+   *
+   * The files are stored in a persistent tree: {@linkcode MemoryFs.prototype.snapshot | snapshots} and copies share all unchanged directories and data files with the original, and a subsequent change copies only the directories on the path to the changed file. Copying a directory takes time linear in its number of children (not in the size of its subtree), so the first change below a shared directory takes time linear in the summed widths of the directories on its path. Data files are never copied; the arrays passed to and returned by the filesystem must not be mutated.
+   */
+  constructor(options: MemoryFsOptions = {}) {
+    this.root = new MemoryDirectory(new Map());
+    this.workingDirectory = Path.absolute([]);
+    this.componentPolicy = options.componentPolicy ?? "minimal";
+    this.owner = {};
+    this.listeners = new Set();
+    this.runningTransactions = [];
+    this.pendingEvents = [];
+  }
+
+  /**
+   * Registers a callback which is called synchronously after every change which {@link MemoryFsEvent | affects} the file at the given path (defaulting to the current working directory), and returns a function which unregisters the callback again.
+   *
+   * The path is resolved when registering the callback, and need not address an existing file. If `options.recursive` is `true`, the callback is called for changes anywhere below the given path, otherwise only for changes of the path itself and of its direct children. Either way, it is also called when an ancestor of the path is removed or moved.
+   */
+  onChange(
+    path: Pathish,
+    callback: (event: MemoryFsEvent) => void,
+    options: { recursive?: boolean } = {},
+  ): () => void {
+    const listener: MemoryFsListener = {
+      path: this.computeAbsolutePath(path),
+      recursive: options.recursive ?? false,
+      callback,
+    };
+
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Returns an async iterable of all changes which {@link MemoryFsEvent | affect} the file at the given path (defaulting to the current working directory), see {@linkcode MemoryFs.prototype.onChange | onChange} for the details. Events are buffered until they are consumed; call {@linkcode MemoryFsWatcher.prototype.close | close} (or break out of a `for await` loop) to stop watching.
+   */
+  watch(
+    path: Pathish = Path.relative([]),
+    options: { recursive?: boolean } = {},
+  ): MemoryFsWatcher {
+    return new MemoryFsWatcher((callback) =>
+      this.onChange(path, callback, options)
+    );
+  }
+
+  // Delivers events to all interested listeners. Errors thrown by listeners are rethrown asynchronously, so that they cannot leave an operation half-done.
+  /** @ignore */
+  private emit(events: MemoryFsEvent[]) {
+    if (this.runningTransactions.length > 0) {
+      this.pendingEvents.push(...events);
+      return;
+    }
+
+    for (const event of events) {
+      for (const listener of [...this.listeners]) {
+        if (
+          isRelevantForListener(listener, event.path) ||
+          (event.kind === "moved" &&
+            isRelevantForListener(listener, event.from))
+        ) {
+          try {
+            listener.callback(event);
+          } catch (err) {
+            queueMicrotask(() => {
+              throw err;
+            });
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Runs the given function and awaits its result. If it rejects (or throws), the filesystem (including its current working directory) is rolled back to the state it had when `transaction` was called, and the error is rethrown. Otherwise, all changes made in the meantime are kept.
+   *
+   * {@link MemoryFs.prototype.onChange | Change listeners} are notified of the changes only once the transaction has succeeded, and never of the changes of a rolled-back transaction. Transactions can be nested; rolling back an inner transaction does not affect the outer one. Concurrently running transactions that are not nested are allowed as well, but their events are delivered only once all of them have finished, and rolling one of them back also undoes the changes of those that were started after it.
+   *
+   * The rollback undoes *all* changes made while the transaction was running, including those made by code outside of `fn` that did not wait for the transaction to finish.
+   */
+  async transaction<T>(fn: () => T | Promise<T>): Promise<T> {
+    const snapshot = this.beginTransaction();
+
+    try {
+      const result = await fn();
+      this.endTransaction(snapshot, true);
+      return result;
+    } catch (err) {
+      this.endTransaction(snapshot, false);
+      throw err;
+    }
+  }
+
+  /**
+   * Runs the given function. If it throws, the filesystem (including its current working directory) is rolled back to the state it had when `transactionSync` was called, and the error is rethrown. Otherwise, all changes made by the function are kept.
+   *
+   * See {@linkcode MemoryFs.prototype.transaction | transaction} for how transactions interact with change listeners.
+   */
+  transactionSync<T>(fn: () => T): T {
+    const snapshot = this.beginTransaction();
+
+    try {
+      const result = fn();
+      this.endTransaction(snapshot, true);
+      return result;
+    } catch (err) {
+      this.endTransaction(snapshot, false);
+      throw err;
+    }
+  }
+
+  /** @ignore */
+  private beginTransaction(): TransactionState {
+    const snapshot = {
+      root: this.root,
+      workingDirectory: this.workingDirectory,
+      eventCount: this.pendingEvents.length,
+    };
+
+    this.owner = {};
+    this.runningTransactions.push(snapshot);
+
+    return snapshot;
+  }
+
+  /** @ignore */
+  private endTransaction(
+    snapshot: TransactionState,
+    commit: boolean,
+  ) {
+    const index = this.runningTransactions.indexOf(snapshot);
+    this.runningTransactions.splice(index, 1);
+
+    if (!commit) {
+      this.root = snapshot.root;
+      this.owner = {};
+      this.workingDirectory = snapshot.workingDirectory;
+      this.pendingEvents.length = snapshot.eventCount;
+
+      // The states in which transactions started later were running include the changes which were just undone, so rolling them back must not bring those changes back.
+      for (const later of this.runningTransactions.slice(index)) {
+        later.root = snapshot.root;
+        later.workingDirectory = snapshot.workingDirectory;
+        later.eventCount = snapshot.eventCount;
+      }
+    }
+
+    if (this.runningTransactions.length === 0) {
+      const events = this.pendingEvents;
+      this.pendingEvents = [];
+      this.emit(events);
+    }
+  }
+
+  /**
+   * Returns a new `MemoryFs` with the same files, current working directory, and component policy as this one (but without any change listeners), in constant time. The two filesystems share their storage, but changing one of them never affects the other.
+   */
+  snapshot(): MemoryFs {
+    const snapshot = new MemoryFs({ componentPolicy: this.componentPolicy });
+    snapshot.root = this.root;
+    snapshot.workingDirectory = this.workingDirectory;
+    this.owner = {};
+
+    return snapshot;
+  }
+
+  /**
+   * Replaces all files and the current working directory of this filesystem with those of the given {@linkcode MemoryFs.prototype.snapshot | snapshot}, in constant time. The snapshot remains unaffected by later changes to this filesystem and can be restored again.
+   *
+   * Throws if the snapshot uses a different component policy than this filesystem. Change listeners are not notified of restoring a snapshot.
+   */
+  restore(snapshot: MemoryFs): void {
+    if (snapshot.componentPolicy !== this.componentPolicy) {
+      throw new MemoryFsError(SNAPSHOT_POLICY_MISMATCH);
+    }
+
+    this.root = snapshot.root;
+    this.workingDirectory = snapshot.workingDirectory;
+    this.owner = {};
+    snapshot.owner = {};
+  }
+
+  // Returns the `created` events for the parent directories which resolving the given absolute path with `createParentDirs` would create.
+  /** @ignore */
+  private parentCreationEvents(path: Path): MemoryFsEvent[] {
+    if (this.listeners.size === 0) {
+      return [];
+    }
+
+    const components = path.getComponents();
+    let dir = this.root;
+
+    for (let i = 0; i < components.length - 1; i++) {
+      const file = dir.contents.get(components[i]);
+
+      if (file === undefined) {
+        const events: MemoryFsEvent[] = [];
+
+        for (let j = i; j < components.length - 1; j++) {
+          events.push({
+            kind: "created",
+            path: Path.absolute(components.slice(0, j + 1)),
+          });
+        }
+
+        return events;
+      } else if (file instanceof MemoryDirectory) {
+        dir = file;
+      } else {
+        return [];
+      }
+    }
+
+    return [];
+  }
+
+  // Throws if creating the file at the given absolute path (and any missing parent directories) would violate the component policy.
+  /** @ignore */
+  private checkComponentPolicy(path: Path) {
+    if (this.componentPolicy === "minimal") {
+      return;
+    }
+
+    let dir: MemoryDirectory | undefined = this.root;
+
+    for (const component of path.getComponents()) {
+      if (!Path.isComponent(component, this.componentPolicy)) {
+        throw new MemoryFsError(
+          `${COMPONENT_POLICY_VIOLATION} Offending component: ${component}`,
+        );
+      }
+
+      if (dir === undefined) {
+        continue;
+      }
+
+      const file: MemoryDirectory | Uint8Array | undefined = dir.contents.get(
+        component,
+      );
+
+      if (
+        file === undefined && this.componentPolicy === "portable" &&
+        dir.hasFoldedCollision(component)
+      ) {
+        throw new MemoryFsError(
+          `${CASE_COLLISION} Offending component: ${component}`,
+        );
+      }
+
+      dir = file instanceof MemoryDirectory ? file : undefined;
+    }
+  }
+
+  // Walks the components of the given absolute path by index. With `createParentDirs`, missing parent directories are created, and shared directories on the path are replaced by owned copies first, so that the returned parent directory can be mutated in place.
+  /** @ignore */
+  private resolveAbsolutePath(
+    path: Path,
+    createParentDirs = false,
+  ): [
+    MemoryDirectory | Uint8Array | "nothing",
+    MemoryDirectory | undefined, /* parent dir */
+  ] {
+    const owner = createParentDirs ? this.owner : undefined;
+
+    if (owner !== undefined && this.root.owner !== owner) {
+      this.root = this.root.copy(owner);
+    }
+
+    const components = path.getComponents();
+
+    if (components.length === 0) {
+      return [this.root, undefined];
+    }
+
+    let dir = this.root;
+
+    for (let i = 0; i < components.length - 1; i++) {
+      dir = dir.resolveChildDirectory(components[i], createParentDirs, owner);
+    }
+
+    return [
+      dir.contents.get(components[components.length - 1]) ?? "nothing",
+      dir,
+    ];
+  }
+
+  /** @ignore */
+  private computeAbsolutePath(path: Pathish): Path {
+    const path_ = Path.fromPathish(path);
+
+    return path_.isAbsolute() ? path_ : this.workingDirectory.concat(path_);
+  }
+
+  pwd(): Path {
+    return this.workingDirectory;
+  }
+
+  cd(path: Pathish): void {
+    const target = this.computeAbsolutePath(path);
+
+    const resolved = this.resolveAbsolutePath(target, false);
+
+    if (resolved[0] === "nothing") {
+      throw new MemoryFsError(NO_SUCH_FILE);
+    } else if (resolved[0] instanceof MemoryDirectory) {
+      this.workingDirectory = target;
+      return;
+    } else {
+      throw new MemoryFsError(EXPECTED_DIRECTORY_GOT_DATA);
+    }
+  }
+
+  ls(path?: Pathish): Promise<Set<string>> {
+    return Promise.resolve(this.lsSync(path));
+  }
+
+  lsSync(path?: Pathish): Set<string> {
+    const target = this.computeAbsolutePath(
+      path === undefined ? Path.relative([]) : path,
+    );
+
+    const resolved = this.resolveAbsolutePath(target, false);
+
+    if (resolved[0] === "nothing") {
+      throw new MemoryFsError(NO_SUCH_FILE);
+    } else if (resolved[0] instanceof MemoryDirectory) {
+      const ret = new Set<string>();
+
+      for (const component of resolved[0].contents.keys()) {
+        ret.add(component);
+      }
+
+      return ret;
+    } else {
+      throw new MemoryFsError(EXPECTED_DIRECTORY_GOT_DATA);
+    }
+  }
+
+  stat(path: Pathish): Promise<"directory" | "data" | "nothing"> {
+    return Promise.resolve(this.statSync(path));
+  }
+
+  statSync(path: Pathish): "directory" | "data" | "nothing" {
+    const target = this.computeAbsolutePath(path);
+
+    const resolved = this.resolveAbsolutePath(target, false);
+
+    if (resolved[0] === "nothing") {
+      return "nothing";
+    } else if (resolved[0] instanceof MemoryDirectory) {
+      return "directory";
+    } else {
+      return "data";
+    }
+  }
+
+  read(path: Pathish): Promise<Uint8Array> {
+    return Promise.resolve(this.readSync(path));
+  }
+
+  readSync(path: Pathish): Uint8Array {
+    const target = this.computeAbsolutePath(path);
+
+    const resolved = this.resolveAbsolutePath(target, false);
+
+    if (resolved[0] === "nothing") {
+      throw new MemoryFsError(NO_SUCH_FILE);
+    } else if (resolved[0] instanceof MemoryDirectory) {
+      throw new MemoryFsError(EXPECTED_DATA_GOT_DIRECTORY);
+    } else {
+      return resolved[0];
+    }
+  }
+
+  write(path: Pathish, data: Uint8Array, mode: Mode = "timid"): Promise<void> {
+    return Promise.resolve(this.writeSync(path, data, mode));
+  }
+
+  writeSync(path: Pathish, data: Uint8Array, mode: Mode = "timid"): void {
+    const target = this.computeAbsolutePath(path);
+    this.checkComponentPolicy(target);
+
+    const events = this.parentCreationEvents(target);
+    const resolved = this.resolveAbsolutePath(target, true);
+
+    if (resolved[0] === "nothing") {
+      if (resolved[1] === undefined) {
+        throw new MemoryFsError(CANNOT_TURN_ROOT_INTO_DATA_FILE);
+      } else {
+        resolved[1].contents.set(target.getFinalComponent()!, data);
+        events.push(...replacementEvents(target, resolved[0], "data"));
+      }
+    } else {
+      if (mode === "timid") {
+        throw new MemoryFsError(TIMID);
+      } else if (mode === "placid") {
+        // Do nothing.
+      } else {
+        if (resolved[1] === undefined) {
+          throw new MemoryFsError(CANNOT_TURN_ROOT_INTO_DATA_FILE);
+        } else {
+          resolved[1].contents.set(target.getFinalComponent()!, data);
+          events.push(...replacementEvents(target, resolved[0], "data"));
+        }
+      }
+    }
+
+    this.emit(events);
+  }
+
+  mkdir(path: Pathish, mode: Mode = "timid"): Promise<void> {
+    return Promise.resolve(this.mkdirSync(path, mode));
+  }
+
+  mkdirSync(path: Pathish, mode: Mode = "timid"): void {
+    const target = this.computeAbsolutePath(path);
+    this.checkComponentPolicy(target);
+
+    const events = this.parentCreationEvents(target);
+    const resolved = this.resolveAbsolutePath(target, true);
+
+    if (resolved[0] === "nothing") {
+      if (resolved[1] === undefined) {
+        throw "unreachable";
+      } else {
+        resolved[1].contents.set(
+          target.getFinalComponent()!,
+          new MemoryDirectory(undefined, this.owner),
+        );
+        events.push(...replacementEvents(target, resolved[0], "directory"));
+      }
+    } else {
+      if (mode === "timid") {
+        throw new MemoryFsError(TIMID);
+      } else if (mode === "placid") {
+        // Do nothing.
+      } else {
+        if (resolved[1] === undefined) {
+          this.root.contents.clear();
+        } else {
+          resolved[1].contents.set(
+            target.getFinalComponent()!,
+            new MemoryDirectory(undefined, this.owner),
+          );
+        }
+        events.push(...replacementEvents(target, resolved[0], "directory"));
+      }
+    }
+
+    this.emit(events);
+  }
+
+  remove(path: Pathish): Promise<void> {
+    return Promise.resolve(this.removeSync(path));
+  }
+
+  removeSync(path: Pathish): void {
+    const target = this.computeAbsolutePath(path);
+
+    if (this.removeAbsolute(target)) {
+      this.emit([{ kind: "removed", path: target }]);
+    }
+  }
+
+  // Removes the file at the given absolute path without emitting any events, returns whether there was a file to remove.
+  /** @ignore */
+  private removeAbsolute(target: Path): boolean {
+    const resolved = this.resolveAbsolutePath(target, true);
+
+    if (resolved[0] === "nothing") {
+      return false;
+    } else if (resolved[1] === undefined) {
+      throw new MemoryFsError(CANNOT_DELETE_ROOT);
+    } else {
+      resolved[1].contents.delete(
+        target.getFinalComponent()!,
+      );
+      return true;
+    }
+  }
+
+  /**
+   * Emits the contents of the data file at the given path (as it was when this method was called) in chunks, without copying them.
+   */
+  readStream(path: Pathish): ReadableStream<Uint8Array> {
+    let data: Uint8Array | undefined = undefined;
+    let error: unknown = undefined;
+    try {
+      data = this.readSync(path);
+    } catch (err) {
+      error = err;
+    }
+
+    let offset = 0;
+
+    return new ReadableStream({
+      pull: (controller) => {
+        if (data === undefined) {
+          controller.error(error);
+        } else if (offset >= data.length) {
+          controller.close();
+        } else {
+          controller.enqueue(data.subarray(offset, offset + STREAM_CHUNK_SIZE));
+          offset += STREAM_CHUNK_SIZE;
+        }
+      },
+    });
+  }
+
   /**
-   * Synchronously reads the complete contents of a data file into a byte buffer. Throws if the path addresses a directory (or nothing).
+   * Collects copies of the written chunks in a list, and concatenates them once, directly into the stored data file, when the stream is closed. With mode `"timid"`, the stream is errored right away (so that writing to it rejects) if there already is a file at the given path.
    */
-  readSync(path: Pathish): Uint8Array;
+  writeStream(
+    path: Pathish,
+    mode: Mode = "timid",
+  ): WritableStream<Uint8Array> {
+    const target = this.computeAbsolutePath(path);
+    const buffer = new ChunkBuffer();
+
+    return new WritableStream({
+      start: (controller) => {
+        let exists = false;
+        try {
+          exists = this.statSync(target) !== "nothing";
+        } catch {
+          // Parent directories are missing; writing will create them (or report a proper error).
+        }
+
+        if (mode === "timid" && exists) {
+          controller.error(new MemoryFsError(TIMID));
+        }
+      },
+      write: (chunk) => {
+        buffer.append(chunk);
+      },
+      close: () => {
+        this.writeSync(target, buffer.contents(), mode);
+      },
+    });
+  }
+
+  readRange(
+    path: Pathish,
+    offset: number,
+    length: number,
+  ): Promise<Uint8Array> {
+    return Promise.resolve(this.readRangeSync(path, offset, length));
+  }
+
+  readRangeSync(path: Pathish, offset: number, length: number): Uint8Array {
+    if (
+      !Number.isSafeInteger(offset) || offset < 0 ||
+      !Number.isSafeInteger(length) || length < 0
+    ) {
+      throw new MemoryFsError(INVALID_RANGE);
+    }
+
+    return this.readSync(path).slice(offset, offset + length);
+  }
+
+  append(
+    path: Pathish,
+    data: Uint8Array,
+    mode: Mode = "timid",
+  ): Promise<void> {
+    return Promise.resolve(this.appendSync(path, data, mode));
+  }
+
+  appendSync(path: Pathish, data: Uint8Array, mode: Mode = "timid"): void {
+    const target = this.computeAbsolutePath(path);
+    this.checkComponentPolicy(target);
+
+    let kind: "directory" | "data" | "nothing" = "nothing";
+    try {
+      kind = this.statSync(target);
+    } catch {
+      // Missing parent directories, `writeSync` will create them (and report their creation).
+    }
+
+    if (kind === "data") {
+      const resolved = this.resolveAbsolutePath(target, true);
+      resolved[1]!.contents.set(
+        target.getFinalComponent()!,
+        concatBytes(resolved[0] as Uint8Array, data),
+      );
+      this.emit([{ kind: "modified", path: target }]);
+    } else {
+      this.writeSync(target, data, mode);
+    }
+  }
 
-  /**
-   * Creates a file with the given contents at the given path.
-   */
-  write(
-    path: Pathish,
-    data: Uint8Array,
-    mode?: Mode,
-  ): Promise<void>;
-  /**
-   * Synchronously creates a file with the given contents at the given path.
-   */
-  writeSync(path: Pathish, data: Uint8Array, mode?: Mode): void;
+  copy(src: Pathish, dst: Pathish, mode: Mode = "timid"): Promise<void> {
+    return Promise.resolve(this.copySync(src, dst, mode));
+  }
 
-  /**
-   * Creates an empty directory at the given path.
-   */
-  mkdir(path: Pathish, mode?: Mode): Promise<void>;
-  /**
-   * Synchronously creates an empty directory at the given path.
-   */
-  mkdirSync(path: Pathish, mode?: Mode): void;
+  copySync(src: Pathish, dst: Pathish, mode: Mode = "timid"): void {
+    return this.copyOrMoveSync(src, dst, false, mode);
+  }
 
   /**
-   * Removes the file at the given path. Rejects if there is no file there.
+   * Relinks the file at `src` to `dst` without copying it, in time proportional to the depth of the two paths. Rejects if `dst` is `src` itself, lies inside of it, or is one of its ancestors (other than the root).
    */
-  remove(path: Pathish): Promise<void>;
+  move(src: Pathish, dst: Pathish, mode: Mode = "timid"): Promise<void> {
+    return Promise.resolve(this.moveSync(src, dst, mode));
+  }
+
   /**
-   * Removes the file at the given path. Throws if there is no file there.
+   * Relinks the file at `src` to `dst` without copying it, in time proportional to the depth of the two paths. Throws if `dst` is `src` itself, lies inside of it, or is one of its ancestors (other than the root).
    */
-  removeSync(path: Pathish): void;
+  moveSync(src: Pathish, dst: Pathish, mode: Mode = "timid"): void {
+    return this.copyOrMoveSync(src, dst, true, mode);
+  }
+
+  copyOrMoveSync(
+    src: Pathish,
+    dst: Pathish,
+    removeSrc: boolean,
+    mode: Mode,
+  ): void {
+    const srcAbsolute = this.computeAbsolutePath(src);
+    const srcResolved = this.resolveAbsolutePath(srcAbsolute, false);
+
+    if (srcResolved[0] === "nothing") {
+      throw new MemoryFsError(NO_SUCH_FILE);
+    } else {
+      const dstAbsolute = this.computeAbsolutePath(dst);
+
+      if (removeSrc && srcAbsolute.prefixes(dstAbsolute)) {
+        throw new MemoryFsError(CANNOT_MOVE_INTO_ITSELF);
+      } else if (removeSrc && isProperAncestor(dstAbsolute, srcAbsolute)) {
+        throw new MemoryFsError(CANNOT_MOVE_ONTO_ANCESTOR);
+      } else if (!removeSrc && srcResolved[0] instanceof MemoryDirectory) {
+        // The source directory is about to be shared by two places in the tree. Moving merely relinks it instead.
+        this.owner = {};
+      }
+
+      this.checkComponentPolicy(dstAbsolute);
+      const events = this.parentCreationEvents(dstAbsolute);
+      const dstResolved = this.resolveAbsolutePath(dstAbsolute, true);
+      const srcKind = srcResolved[0] instanceof MemoryDirectory
+        ? "directory"
+        : "data";
+
+      if (dstResolved[0] === "nothing") {
+        if (dstResolved[1] === undefined) {
+          throw new MemoryFsError(CANNOT_COPY_OR_MOVE_INTO_ROOT);
+        } else {
+          dstResolved[1].contents.set(
+            dstAbsolute.getFinalComponent()!,
+            srcResolved[0],
+          );
+
+          if (removeSrc) {
+            this.removeAbsolute(srcAbsolute);
+            events.push({
+              kind: "moved",
+              from: srcAbsolute,
+              path: dstAbsolute,
+            });
+          } else {
+            events.push({ kind: "created", path: dstAbsolute });
+          }
+        }
+      } else {
+        if (dstResolved[1] === undefined) {
+          throw new MemoryFsError(CANNOT_COPY_OR_MOVE_INTO_ROOT);
+        } else {
+          if (mode === "timid") {
+            throw new MemoryFsError(TIMID);
+          } else if (mode === "placid") {
+            if (removeSrc) {
+              this.removeAbsolute(srcAbsolute);
+              events.push({ kind: "removed", path: srcAbsolute });
+            }
+            // Do nothing.
+          } else {
+            dstResolved[1].contents.set(
+              dstAbsolute.getFinalComponent()!,
+              srcResolved[0],
+            );
+
+            if (removeSrc) {
+              this.removeAbsolute(srcAbsolute);
+              events.push({ kind: "removed", path: dstAbsolute });
+              events.push({
+                kind: "moved",
+                from: srcAbsolute,
+                path: dstAbsolute,
+              });
+            } else {
+              events.push(
+                ...replacementEvents(dstAbsolute, dstResolved[0], srcKind),
+              );
+            }
+          }
+        }
+      }
+
+      this.emit(events);
+    }
+  }
 
   /**
-   * Copies the file (which may be a directory) at `src` to `dst`. Rejects if `src` is not a file. The `mode` applies to `dst`.
+   * Create a populated `MemoryFs` (with a current working directory of `/`) from a given {@linkcode MemoryFsLiteral}.
+   *
+   * Throws if any of the strings is not a valid {@link Path.isComponent | component} under `options.componentPolicy`.
    */
-  copy(src: Pathish, dst: Pathish, mode?: Mode): Promise<void>;
+  static fromLiteral(
+    literal: MemoryFsLiteral,
+    options: MemoryFsOptions = {},
+  ): MemoryFs {
+    const fs = new MemoryFs(options);
+    fs.root = MemoryDirectory.fromLiteral(
+      literal,
+      fs.componentPolicy,
+      fs.owner,
+    );
+    return fs;
+  }
+}
+
+/**
+ * A change of a {@linkcode MemoryFs}, as reported to {@linkcode MemoryFs.prototype.onChange | MemoryFs.onChange} and {@linkcode MemoryFs.prototype.watch | MemoryFs.watch}. All paths are absolute.
+ *
+ * - `"created"`: a file was created at `path` where there was nothing before. Directories created implicitly as parents of a new file are reported as well, before the file itself.
+ * - `"modified"`: the data file at `path` was overwritten with (or appended) new data.
+ * - `"removed"`: the file at `path` was removed, including everything inside it if it was a directory. Replacing a file with a file of a different kind (or replacing a directory with a new directory) is reported as a removal followed by a creation.
+ * - `"moved"`: the file at `from` was moved to `path`. If this replaced a file at `path`, the removal of that file is reported before the move.
+ *
+ * Operations which affect whole subtrees (removing, moving, copying, or replacing a directory) report a single event for the root of the subtree only.
+ */
+export type MemoryFsEvent =
+  | { kind: "created"; path: Path }
+  | { kind: "modified"; path: Path }
+  | { kind: "removed"; path: Path }
+  | { kind: "moved"; from: Path; path: Path };
+
+/**
+ * An async iterable of {@link MemoryFsEvent | changes} to a {@linkcode MemoryFs}, obtained from {@linkcode MemoryFs.prototype.watch | MemoryFs.watch}.
+ */
+export class MemoryFsWatcher implements AsyncIterableIterator<MemoryFsEvent> {
+  /** @ignore */
+  private readonly unsubscribe: () => void;
+  /** @ignore */
+  private readonly buffered: MemoryFsEvent[];
+  /** @ignore */
+  private waiting:
+    | ((result: IteratorResult<MemoryFsEvent, undefined>) => void)
+    | undefined;
+  /** @ignore */
+  private closed: boolean;
+
+  /** @ignore */
+  constructor(
+    subscribe: (callback: (event: MemoryFsEvent) => void) => () => void,
+  ) {
+    this.buffered = [];
+    this.waiting = undefined;
+    this.closed = false;
+
+    this.unsubscribe = subscribe((event) => {
+      if (this.waiting !== undefined) {
+        const resolve = this.waiting;
+        this.waiting = undefined;
+        resolve({ done: false, value: event });
+      } else {
+        this.buffered.push(event);
+      }
+    });
+  }
+
   /**
-   * Synchronously copies the file (which may be a directory) at `src` to `dst`. Throws if `src` is not a file. The `mode` applies to `dst`.
+   * Resolves with the next change, waiting for one if none is buffered. Resolves with `done` once the watcher has been closed and all buffered changes have been consumed.
    */
-  copySync(src: Pathish, dst: Pathish, mode?: Mode): void;
+  next(): Promise<IteratorResult<MemoryFsEvent, undefined>> {
+    if (this.buffered.length > 0) {
+      return Promise.resolve({ done: false, value: this.buffered.shift()! });
+    } else if (this.closed) {
+      return Promise.resolve({ done: true, value: undefined });
+    } else {
+      return new Promise((resolve) => {
+        this.waiting = resolve;
+      });
+    }
+  }
 
   /**
-   * Moves the file (which may be a directory) at `src` to `dst`. Rejects if `src` is not a file. The `mode` applies to `dst`.
+   * Closes the watcher, see {@linkcode MemoryFsWatcher.prototype.close | close}.
    */
-  move(src: Pathish, dst: Pathish, mode?: Mode): Promise<void>;
+  return(): Promise<IteratorResult<MemoryFsEvent, undefined>> {
+    this.close();
+    this.buffered.length = 0;
+    return Promise.resolve({ done: true, value: undefined });
+  }
+
   /**
-   * Synchronously moves the file (which may be a directory) at `src` to `dst`. Throws if `src` is not a file. The `mode` applies to `dst`.
+   * Stops watching for changes. Changes which were reported before closing can still be consumed.
    */
-  moveSync(src: Pathish, dst: Pathish, mode?: Mode): void;
+  close(): void {
+    if (!this.closed) {
+      this.closed = true;
+      this.unsubscribe();
+
+      if (this.waiting !== undefined) {
+        const resolve = this.waiting;
+        this.waiting = undefined;
+        resolve({ done: true, value: undefined });
+      }
+    }
+  }
+
+  [Symbol.asyncIterator](): MemoryFsWatcher {
+    return this;
+  }
+}
+
+type MemoryFsListener = {
+  path: Path;
+  recursive: boolean;
+  callback: (event: MemoryFsEvent) => void;
+};
+
+// The state to restore when rolling back a transaction.
+type TransactionState = {
+  root: MemoryDirectory;
+  workingDirectory: Path;
+  eventCount: number;
+};
+
+// A change at `path` is relevant for a listener if it affects the watched path itself, an ancestor of it, or a file below it (only direct children for non-recursive listeners).
+function isRelevantForListener(
+  listener: MemoryFsListener,
+  path: Path,
+): boolean {
+  if (path.prefixes(listener.path)) {
+    return true;
+  } else if (!listener.path.prefixes(path)) {
+    return false;
+  } else {
+    return listener.recursive ||
+      path.getComponentCount() === listener.path.getComponentCount() + 1;
+  }
+}
+
+// The events for putting a file of kind `newKind` at `path`, where `old` was before.
+function replacementEvents(
+  path: Path,
+  old: MemoryDirectory | Uint8Array | "nothing",
+  newKind: "directory" | "data",
+): MemoryFsEvent[] {
+  if (old === "nothing") {
+    return [{ kind: "created", path }];
+  } else if (old instanceof Uint8Array && newKind === "data") {
+    return [{ kind: "modified", path }];
+  } else {
+    return [{ kind: "removed", path }, { kind: "created", path }];
+  }
+}
+
+// Whether `ancestor` lies strictly above `path` and is not the root. Moving a file onto such an ancestor would remove the moved file together with the replaced ancestor.
+function isProperAncestor(ancestor: Path, path: Path): boolean {
+  return ancestor.getComponentCount() > 0 &&
+    ancestor.getComponentCount() < path.getComponentCount() &&
+    ancestor.prefixes(path);
 }
 
 /**
- * This interface adds some utility functions to the {@linkcode SimpleFilesystem} interface. Any {@linkcode SimpleFilesystem} can be converted into a {@linkcode SimpleFilesystemExt} via the {@linkcode FilesystemExt} class, but this interface can also be implemented natively for more efficient method implementations than the default implementations of {@linkcode FilesystemExt}.
+ * The argument for {@linkcode MemoryFs.fromLiteral}, use this to create an immediately populated {@linkcode MemoryFs}, usually for testing.
+ *
+ * A `MemoryFsLiteral` is basically an object literal. The keys must be valid {@link Path.isComponent | components}, and the values either turn into file contents (if strings), or into nested directories (if nested `MemoryFsLiteral`s).
  */
-export interface SimpleFilesystemExt {
+export type MemoryFsLiteral = { [key: string]: string | MemoryFsLiteral };
+
+/**
+ * Options for creating a {@linkcode MemoryFs}.
+ *
+ * - `componentPolicy`: the {@linkcode ComponentPolicy} which the names of all files in the filesystem must satisfy. Defaults to `"minimal"`.
+ */
+export type MemoryFsOptions = { componentPolicy?: ComponentPolicy };
+
+class MemoryDirectory {
+  contents: Map<string, MemoryDirectory | Uint8Array>;
+  // The owner token of the MemoryFs which may mutate this directory in place (if any).
+  owner: object | undefined;
+
+  constructor(
+    contents?: Map<string, MemoryDirectory | Uint8Array>,
+    owner?: object,
+  ) {
+    if (contents === undefined) {
+      this.contents = new Map();
+    } else {
+      this.contents = contents;
+    }
+
+    this.owner = owner;
+  }
+
+  // Returns the directory of the given name inside this directory. If there is none, throws unless `createDir` is `true`, in which case a new directory is created. If an owner is given, a child directory which is not owned by it is replaced by an owned copy first.
+  resolveChildDirectory(
+    component: string,
+    createDir: boolean,
+    owner?: object,
+  ): MemoryDirectory {
+    const file = this.contents.get(component);
+
+    if (file === undefined) {
+      if (createDir) {
+        const newDir = new MemoryDirectory(undefined, owner);
+        this.contents.set(component, newDir);
+        return newDir;
+      } else {
+        throw new MemoryFsError(NO_SUCH_FILE);
+      }
+    } else if (file instanceof MemoryDirectory) {
+      if (owner !== undefined && file.owner !== owner) {
+        const ownedDir = file.copy(owner);
+        this.contents.set(component, ownedDir);
+        return ownedDir;
+      } else {
+        return file;
+      }
+    } else {
+      throw new MemoryFsError(EXPECTED_DIRECTORY_GOT_DATA);
+    }
+  }
+
+  // Returns whether this directory contains a file whose name differs from the given component, but only in case or unicode normalisation.
+  hasFoldedCollision(component: string): boolean {
+    const folded = foldComponent(component);
+
+    for (const existing of this.contents.keys()) {
+      if (existing !== component && foldComponent(existing) === folded) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  static fromLiteral(
+    literal: MemoryFsLiteral,
+    policy: ComponentPolicy = "minimal",
+    owner?: object,
+  ): MemoryDirectory {
+    const dir = new MemoryDirectory(undefined, owner);
+
+    for (const comp in literal) {
+      if (
+        Path.isComponent(comp, policy) &&
+        !(policy === "portable" && dir.hasFoldedCollision(comp))
+      ) {
+        const val = literal[comp];
+
+        if (typeof val === "string") {
+          const encoder = new TextEncoder();
+          const bytes = encoder.encode(val);
+          dir.contents.set(comp, bytes);
+        } else {
+          const nestedDir = MemoryDirectory.fromLiteral(val, policy, owner);
+          dir.contents.set(comp, nestedDir);
+        }
+      } else {
+        throw `Invalid MemoryFsLiteral: ${comp} is not a valid Path component.`;
+      }
+    }
+
+    return dir;
+  }
+
+  // Returns a shallow copy of this directory, owned by the given owner, in O(width). The files inside are shared with this directory.
+  copy(owner: object): MemoryDirectory {
+    return new MemoryDirectory(new Map(this.contents), owner);
+  }
+}
+
+/**
+ * The type of errors thrown by all {@linkcode MemoryFs} operations (except for the {@linkcode ConcatPathError | ConcatPathErrors} and {@linkcode ParseSimpleFsPathError | ParseSimpleFsPathErrors} which might also be thrown). The `name` of these errors property is always `"MemoryFsError"`.
+ */
+export class MemoryFsError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, MemoryFsError.prototype);
+    this.name = "MemoryFsError";
+  }
+}
+
+/**
+ * A {@linkcode SimpleFilesystem} which layers a writable `upper` filesystem over a `lower` filesystem, without ever changing the `lower` one.
+ *
+ * Reading falls through to the `lower` filesystem unless the `upper` one has a file at the same path; directories present in both layers are merged. All changes are applied to the `upper` filesystem only, which creates parent directories as needed. Removing (or replacing) a file of the `lower` filesystem records a *whiteout* for its path, which hides that file and everything below it in the `lower` filesystem from then on. Together, the `upper` filesystem and the {@linkcode OverlayFs.prototype.getWhiteouts | whiteouts} describe exactly what changed.
+ *
+ * The overlay has its own current working directory (initially `/`), and accesses both layers via absolute paths only. Its asynchronous methods are implemented in terms of the synchronous methods of the layers.
+ */
+export class OverlayFs implements SimpleFilesystem {
   /**
-   * Reads the complete contents of a utf8 data file into a string. Rejects if the file does not contain valid utf8, or if the path addresses a directory (or nothing).
+   * The filesystem which is read from but never changed.
    */
-  readString(path: Pathish): Promise<string>;
+  readonly lower: SimpleFilesystem;
   /**
-   * Synchronously reads the complete contents of a utf8 data file into a string. Throws if the file does not contain valid utf8, or if the path addresses a directory (or nothing).
+   * The filesystem to which all changes are applied.
    */
-  readStringSync(path: Pathish): string;
+  readonly upper: SimpleFilesystem;
+  /** @ignore */
+  private whiteouts: PathTrie<true>;
+  /** @ignore */
+  private workingDirectory: Path;
 
   /**
-   * Creates a file with the utf8 encoding of the given string at the given path.
+   * Creates a new overlay of the `upper` filesystem over the `lower` filesystem, without any whiteouts.
    */
-  writeString(
-    path: Pathish,
-    data: string,
-    mode?: Mode,
-  ): Promise<void>;
+  constructor(lower: SimpleFilesystem, upper: SimpleFilesystem) {
+    this.lower = lower;
+    this.upper = upper;
+    this.whiteouts = new PathTrie();
+    this.workingDirectory = Path.absolute([]);
+  }
+
   /**
-   * Synchronously creates a file with the utf8 encoding of the given string at the given path.
+   * Returns the absolute paths of all whiteouts, sorted by {@linkcode Path.compare}. The files of the `lower` filesystem at (or below) these paths are hidden.
    */
-  writeStringSync(path: Pathish, data: string, mode?: Mode): void;
+  getWhiteouts(): Path[] {
+    return [...this.whiteouts.entries()].map(([path]) => path).sort(
+      Path.compare,
+    );
+  }
+
+  /** @ignore */
+  private computeAbsolutePath(path: Pathish): Path {
+    const path_ = Path.fromPathish(path);
+
+    return path_.isAbsolute() ? path_ : this.workingDirectory.concat(path_);
+  }
+
+  // Returns what kind of file the lower layer contributes at the given absolute path, taking whiteouts into account.
+  /** @ignore */
+  private lowerKind(path: Path): "directory" | "data" | "nothing" {
+    if (this.whiteouts.longestPrefixOf(path) !== undefined) {
+      return "nothing";
+    } else {
+      return statOrNothing(this.lower, path);
+    }
+  }
 
-  /**
-   * Ensures there is no file at the given destination (if the mode allows for overwriting, will remove the destination when necessary, otherwise will reject).
-   */
-  ensureNot(path: Pathish, mode?: Mode): Promise<void>;
-  /**
-   * Synchronously there is no file at the given destination (if the mode allows for overwriting, will remove the destination when necessary, otherwise will reject).
-   */
-  ensureNotSync(path: Pathish, mode?: Mode): void;
+  // Returns what kind of file is visible at the given absolute path, treating missing parent directories as there being nothing.
+  /** @ignore */
+  private kindOf(path: Path): "directory" | "data" | "nothing" {
+    const upperKind = statOrNothing(this.upper, path);
 
-  /**
-   * Returns `true` iff the contents of the current working directory of the `other` file system are equal to the contents of the current working directory of this file system.
-   */
-  eq(other: SimpleFilesystem): boolean;
-}
+    return upperKind === "nothing" ? this.lowerKind(path) : upperKind;
+  }
 
-/**
- * Adds to any {@linkcode SimpleFilesystem} the methods of the {@linkcode SimpleFilesystemExt} interface by providing default default implementations, implemented purely in terms of the methods of the {@linkcode SimpleFilesystem}  interface.
- */
-export class FilesystemExt<Fs extends SimpleFilesystem>
-  implements SimpleFilesystem, SimpleFilesystemExt {
-  fs: Fs;
+  // Throws if any ancestor of the given absolute path is a data file. Missing ancestors are fine, writing creates them.
+  /** @ignore */
+  private checkAncestors(path: Path) {
+    const components = path.getComponents();
 
-  /**
-   * Wraps an arbitrary {@linkcode SimpleFilesystem}, adding to it default implementations of the {@linkcode SimpleFilesystemExt} interface.
-   */
-  constructor(fs: Fs) {
-    this.fs = fs;
+    for (let i = 1; i < components.length; i++) {
+      const kind = this.kindOf(Path.absolute(components.slice(0, i)));
+
+      if (kind === "data") {
+        throw new OverlayFsError(EXPECTED_DIRECTORY_GOT_DATA);
+      } else if (kind === "nothing") {
+        return;
+      }
+    }
+  }
+
+  // Records a whiteout for the given absolute path, if the lower layer contributes a file there.
+  /** @ignore */
+  private whiteOut(path: Path) {
+    if (this.lowerKind(path) !== "nothing") {
+      for (const [below] of [...this.whiteouts.entriesUnder(path)]) {
+        this.whiteouts.delete(below);
+      }
+
+      this.whiteouts.set(path, true);
+    }
   }
 
   pwd(): Path {
-    return this.fs.pwd();
+    return this.workingDirectory;
   }
 
   cd(path: Pathish): void {
-    return this.fs.cd(path);
+    const target = this.computeAbsolutePath(path);
+    const kind = this.kindOf(target);
+
+    if (kind === "nothing") {
+      throw new OverlayFsError(NO_SUCH_FILE);
+    } else if (kind === "data") {
+      throw new OverlayFsError(EXPECTED_DIRECTORY_GOT_DATA);
+    } else {
+      this.workingDirectory = target;
+    }
   }
 
   ls(path?: Pathish): Promise<Set<string>> {
-    return this.fs.ls(path);
+    return Promise.resolve(this.lsSync(path));
   }
 
   lsSync(path?: Pathish): Set<string> {
-    return this.fs.lsSync(path);
+    const target = this.computeAbsolutePath(
+      path === undefined ? Path.relative([]) : path,
+    );
+    const kind = this.kindOf(target);
+
+    if (kind === "nothing") {
+      throw new OverlayFsError(NO_SUCH_FILE);
+    } else if (kind === "data") {
+      throw new OverlayFsError(EXPECTED_DIRECTORY_GOT_DATA);
+    }
+
+    const ret = new Set<string>();
+
+    if (statOrNothing(this.upper, target) === "directory") {
+      for (const component of this.upper.lsSync(target)) {
+        ret.add(component);
+      }
+    }
+
+    if (this.lowerKind(target) === "directory") {
+      for (const component of this.lower.lsSync(target)) {
+        if (!this.whiteouts.has(target.pushBack(component))) {
+          ret.add(component);
+        }
+      }
+    }
+
+    return ret;
   }
 
   stat(path: Pathish): Promise<"directory" | "data" | "nothing"> {
-    return this.fs.stat(path);
+    return Promise.resolve(this.statSync(path));
   }
 
   statSync(path: Pathish): "directory" | "data" | "nothing" {
-    return this.fs.statSync(path);
+    const target = this.computeAbsolutePath(path);
+    const components = target.getComponents();
+
+    if (components.length > 0) {
+      const parentKind = this.kindOf(Path.absolute(components.slice(0, -1)));
+
+      if (parentKind === "nothing") {
+        throw new OverlayFsError(NO_SUCH_FILE);
+      } else if (parentKind === "data") {
+        throw new OverlayFsError(EXPECTED_DIRECTORY_GOT_DATA);
+      }
+    }
+
+    return this.kindOf(target);
   }
 
   read(path: Pathish): Promise<Uint8Array> {
-    return this.fs.read(path);
+    return Promise.resolve(this.readSync(path));
   }
 
   readSync(path: Pathish): Uint8Array {
-    return this.fs.readSync(path);
+    const target = this.computeAbsolutePath(path);
+    const kind = this.kindOf(target);
+
+    if (kind === "nothing") {
+      throw new OverlayFsError(NO_SUCH_FILE);
+    } else if (kind === "directory") {
+      throw new OverlayFsError(EXPECTED_DATA_GOT_DIRECTORY);
+    } else if (statOrNothing(this.upper, target) === "data") {
+      return this.upper.readSync(target);
+    } else {
+      return this.lower.readSync(target);
+    }
   }
 
-  write(path: Pathish, data: Uint8Array, mode?: Mode): Promise<void> {
-    return this.fs.write(path, data, mode);
+  write(path: Pathish, data: Uint8Array, mode: Mode = "timid"): Promise<void> {
+    return Promise.resolve(this.writeSync(path, data, mode));
   }
 
-  writeSync(path: Pathish, data: Uint8Array, mode?: Mode): void {
-    return this.fs.writeSync(path, data, mode);
+  writeSync(path: Pathish, data: Uint8Array, mode: Mode = "timid"): void {
+    const target = this.computeAbsolutePath(path);
+    this.checkAncestors(target);
+
+    if (this.kindOf(target) === "nothing" || mode === "assertive") {
+      if (target.getComponentCount() === 0) {
+        throw new OverlayFsError(CANNOT_TURN_ROOT_INTO_DATA_FILE);
+      }
+
+      this.upper.writeSync(target, data, "assertive");
+      this.whiteOut(target);
+    } else if (mode === "timid") {
+      throw new OverlayFsError(TIMID);
+    } else {
+      // Do nothing.
+    }
   }
 
-  mkdir(path: Pathish, mode?: Mode): Promise<void> {
-    return this.fs.mkdir(path, mode);
+  mkdir(path: Pathish, mode: Mode = "timid"): Promise<void> {
+    return Promise.resolve(this.mkdirSync(path, mode));
   }
 
-  mkdirSync(path: Pathish, mode?: Mode): void {
-    return this.fs.mkdirSync(path, mode);
+  mkdirSync(path: Pathish, mode: Mode = "timid"): void {
+    const target = this.computeAbsolutePath(path);
+    this.checkAncestors(target);
+
+    if (this.kindOf(target) === "nothing" || mode === "assertive") {
+      this.upper.mkdirSync(target, "assertive");
+      this.whiteOut(target);
+    } else if (mode === "timid") {
+      throw new OverlayFsError(TIMID);
+    } else {
+      // Do nothing.
+    }
   }
 
   remove(path: Pathish): Promise<void> {
-    return this.fs.remove(path);
+    return Promise.resolve(this.removeSync(path));
   }
 
   removeSync(path: Pathish): void {
-    return this.fs.removeSync(path);
-  }
+    const target = this.computeAbsolutePath(path);
 
-  copy(src: Pathish, dst: Pathish, mode?: Mode): Promise<void> {
-    return this.fs.copy(src, dst, mode);
-  }
+    if (this.kindOf(target) === "nothing") {
+      return;
+    } else if (target.getComponentCount() === 0) {
+      throw new OverlayFsError(CANNOT_DELETE_ROOT);
+    }
 
-  copySync(src: Pathish, dst: Pathish, mode?: Mode): void {
-    return this.fs.copySync(src, dst, mode);
-  }
+    if (statOrNothing(this.upper, target) !== "nothing") {
+      this.upper.removeSync(target);
+    }
 
-  move(src: Pathish, dst: Pathish, mode?: Mode): Promise<void> {
-    return this.fs.move(src, dst, mode);
+    this.whiteOut(target);
   }
 
-  moveSync(src: Pathish, dst: Pathish, mode?: Mode): void {
-    return this.fs.moveSync(src, dst, mode);
+  copy(src: Pathish, dst: Pathish, mode: Mode = "timid"): Promise<void> {
+    return Promise.resolve(this.copySync(src, dst, mode));
   }
 
-  async readString(path: Pathish): Promise<string> {
-    const bytes = await this.fs.read(path);
-    const decoder = new TextDecoder("utf-8");
-    return decoder.decode(bytes);
+  copySync(src: Pathish, dst: Pathish, mode: Mode = "timid"): void {
+    return this.copyOrMoveSync(src, dst, false, mode);
   }
 
-  readStringSync(path: Pathish): string {
-    const bytes = this.fs.readSync(path);
-    const decoder = new TextDecoder("utf-8");
-    return decoder.decode(bytes);
+  move(src: Pathish, dst: Pathish, mode: Mode = "timid"): Promise<void> {
+    return Promise.resolve(this.moveSync(src, dst, mode));
   }
 
-  writeString(path: Pathish, data: string, mode?: Mode): Promise<void> {
-    const encoder = new TextEncoder();
-    const bytes = encoder.encode(data);
-    return this.fs.write(path, bytes, mode);
+  moveSync(src: Pathish, dst: Pathish, mode: Mode = "timid"): void {
+    return this.copyOrMoveSync(src, dst, true, mode);
   }
 
-  writeStringSync(path: Pathish, data: string, mode?: Mode): void {
-    const encoder = new TextEncoder();
-    const bytes = encoder.encode(data);
-    return this.fs.writeSync(path, bytes, mode);
-  }
+  // Copies the visible file at `src` into the upper layer (and whites out `src` when moving).
+  /** @ignore */
+  private copyOrMoveSync(
+    src: Pathish,
+    dst: Pathish,
+    removeSrc: boolean,
+    mode: Mode,
+  ): void {
+    const srcAbsolute = this.computeAbsolutePath(src);
 
-  async ensureNot(path: Pathish, mode?: Mode): Promise<void> {
-    let stat = "nothing";
-    try {
-      stat = await this.fs.stat(path);
-    } catch {
-      // Yay, nothing is at the path.
-      // Nothing else to do.
-      return;
+    if (this.kindOf(srcAbsolute) === "nothing") {
+      throw new OverlayFsError(NO_SUCH_FILE);
     }
 
-    if (stat !== "nothing") {
-      if (mode === "assertive") {
-        return this.fs.remove(path);
-      } else {
-        throw new Error(
-          "Would have to delete a file for `ensureNotSync`, but the `mode` was " +
-            mode,
-        );
-      }
-    }
-  }
+    const dstAbsolute = this.computeAbsolutePath(dst);
 
-  ensureNotSync(path: Pathish, mode?: Mode): void {
-    let stat = "nothing";
-    try {
-      stat = this.fs.statSync(path);
-    } catch {
-      // Yay, nothing is at the path.
-      // Nothing else to do.
-      return;
+    if (removeSrc && srcAbsolute.prefixes(dstAbsolute)) {
+      throw new OverlayFsError(CANNOT_MOVE_INTO_ITSELF);
+    } else if (removeSrc && isProperAncestor(dstAbsolute, srcAbsolute)) {
+      throw new OverlayFsError(CANNOT_MOVE_ONTO_ANCESTOR);
+    } else if (dstAbsolute.getComponentCount() === 0) {
+      throw new OverlayFsError(CANNOT_COPY_OR_MOVE_INTO_ROOT);
     }
 
-    if (stat !== "nothing") {
-      if (mode === "assertive") {
-        this.fs.removeSync(path);
-      } else {
-        throw new Error(
-          "Would have to delete a file for `ensureNotSync`, but the `mode` was " +
-            mode,
-        );
+    this.checkAncestors(dstAbsolute);
+
+    if (this.kindOf(dstAbsolute) !== "nothing") {
+      if (mode === "timid") {
+        throw new OverlayFsError(TIMID);
+      } else if (mode === "placid") {
+        if (removeSrc) {
+          this.removeSync(srcAbsolute);
+        }
+
+        return;
       }
     }
-  }
 
-  eq(other: SimpleFilesystem): boolean {
-    return fileEq(this.fs, this.pwd(), other, other.pwd());
+    writeFileTree(this.upper, dstAbsolute, readFileTree(this, srcAbsolute));
+    this.whiteOut(dstAbsolute);
+
+    if (removeSrc) {
+      this.removeSync(srcAbsolute);
+    }
   }
 }
 
-function fileEq(
-  fs1: SimpleFilesystem,
-  path1: Path,
-  fs2: SimpleFilesystem,
-  path2: Path,
-): boolean {
-  const stat1 = fs1.statSync(path1);
-  const stat2 = fs2.statSync(path2);
+// A data file, or a directory with all its contents, as read by `readFileTree`.
+type FileTree = Uint8Array | Map<string, FileTree>;
 
-  if (stat1 !== stat2) {
-    return false;
-  }
+// Reads the file at the given path, including all its contents if it is a directory. Reading everything before writing anything lets copies of a directory into itself terminate.
+function readFileTree(fs: SimpleFilesystem, path: Path): FileTree {
+  if (fs.statSync(path) === "data") {
+    return fs.readSync(path);
+  } else {
+    const tree = new Map<string, FileTree>();
 
-  if (stat1 === "nothing") {
-    return true;
-  } else if (stat1 === "data") {
-    const data1 = fs1.readSync(path1);
-    const data2 = fs2.readSync(path2);
+    for (const component of fs.lsSync(path)) {
+      tree.set(component, readFileTree(fs, path.pushBack(component)));
+    }
 
-    if (data1.length !== data2.length) {
-      return false;
-    } else {
-      for (let i = 0; i < data1.length; i++) {
-        if (data1[i] !== data2[i]) {
-          return false;
-        }
-      }
+    return tree;
+  }
+}
 
-      return true;
-    }
+// Writes a tree obtained from `readFileTree` to the given path, replacing whatever was there.
+function writeFileTree(fs: SimpleFilesystem, path: Path, tree: FileTree) {
+  if (tree instanceof Uint8Array) {
+    fs.writeSync(path, tree, "assertive");
   } else {
-    // Got two directories.
-    const ls1 = fs1.lsSync(path1);
-    const ls2 = fs2.lsSync(path2);
+    fs.mkdirSync(path, "assertive");
 
-    if (ls1.size !== ls2.size) {
-      return false;
-    } else {
-      return [...ls1].every((comp) => {
-        return fileEq(
-          fs1,
-          path1.concat(Path.relative([comp])),
-          fs2,
-          path2.concat(Path.relative([comp])),
-        );
-      });
+    for (const [component, subtree] of tree) {
+      writeFileTree(fs, path.pushBack(component), subtree);
     }
   }
 }
 
-const NO_SUCH_FILE = "Addressed a file but there is no file of that name.";
-const EXPECTED_DIRECTORY_GOT_DATA =
-  "Wanted to address a directory but there was a data file instead.";
-const EXPECTED_DATA_GOT_DIRECTORY =
-  "Wanted to address a data file but there was a directory instead.";
-const CANNOT_TURN_ROOT_INTO_DATA_FILE =
-  "Tried to turn the root of a filesystem into a data file, but that is not allowed";
-const CANNOT_COPY_OR_MOVE_INTO_ROOT =
-  "Tried to copy or move a file to the root of a filesystem, but that is not allowed";
-const CANNOT_DELETE_ROOT =
-  "Tried to delete the root of a filesystem, but that is not allowed";
-const TIMID =
-  "A filesystem oepration of mode `timid` (the default mode) would have overwritten data, so it threw this error instead.";
+// Returns what kind of file a filesystem has at the given path, treating missing parent directories as there being nothing.
+function statOrNothing(
+  fs: SimpleFilesystem,
+  path: Path,
+): "directory" | "data" | "nothing" {
+  try {
+    return fs.statSync(path);
+  } catch {
+    return "nothing";
+  }
+}
 
 /**
- * An implementation of {@linkcode SimpleFilesystem} that stores data purely in memory.
+ * The type of errors thrown by {@linkcode OverlayFs} operations themselves; errors of the two layers are passed through unchanged. The `name` of these errors property is always `"OverlayFsError"`.
+ */
+export class OverlayFsError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, OverlayFsError.prototype);
+    this.name = "OverlayFsError";
+  }
+}
+
+/**
+ * A {@linkcode SimpleFilesystem} which is assembled from other filesystems, each {@linkcode MountFs.prototype.mount | mounted} at some absolute path. Every operation is routed to the filesystem mounted at the longest prefix of its path; the path within that filesystem is the remainder of the path after the mount point (so the mount point itself corresponds to the root directory of the mounted filesystem).
+ *
+ * Mount points and all their ancestors (including the root) are always directories, and their {@linkcode MountFs.prototype.ls | listings} include the mount points below them. They cannot be replaced or removed. Creating files at paths outside of all mounted filesystems throws. Copying or moving files within the same mounted filesystem is delegated to that filesystem, all other copies (and moves) read and write the files through the `MountFs` (and moves remove the source afterwards).
+ *
+ * The `MountFs` has its own current working directory (initially `/`), and accesses the mounted filesystems via absolute paths only. Its asynchronous methods are implemented in terms of the synchronous methods of the mounted filesystems.
  */
-export class MemoryFs implements SimpleFilesystem {
+export class MountFs implements SimpleFilesystem {
   /** @ignore */
-  private root: MemoryDirectory;
+  private mounts: PathTrie<SimpleFilesystem>;
   /** @ignore */
   private workingDirectory: Path;
 
   /**
-   * Creates a new in-memory filesystem.
-   *
-   * The root of the new filesystem is an empty directory. The initial current working directory is `/` (i.e., that one directory).
+   * Creates a new `MountFs`, optionally with some initial mounts (see {@linkcode MountFs.prototype.mount | mount}).
    */
-  constructor() {
-    this.root = new MemoryDirectory(new Map());
+  constructor(mounts: Iterable<[Pathish, SimpleFilesystem]> = []) {
+    this.mounts = new PathTrie();
     this.workingDirectory = Path.absolute([]);
+
+    for (const [path, fs] of mounts) {
+      this.mount(path, fs);
+    }
   }
 
-  /** @ignore */
-  private resolveAbsolutePath(
-    path: Pathish,
-    createParentDirs = false,
-  ): [
-    MemoryDirectory | Uint8Array | "nothing",
-    MemoryDirectory | undefined, /* parent dir */
-  ] {
-    return this.root.resolveAbsolutePath(path, createParentDirs);
+  /**
+   * Mounts a filesystem at the given path (resolved against the current working directory). Throws if another filesystem is mounted at that path already. Files of previously mounted filesystems at or below the path become hidden.
+   */
+  mount(path: Pathish, fs: SimpleFilesystem): void {
+    const target = this.computeAbsolutePath(path);
+
+    if (this.mounts.has(target)) {
+      throw new MountFsError(ALREADY_MOUNTED);
+    }
+
+    this.mounts.set(target, fs);
+  }
+
+  /**
+   * Unmounts the filesystem at the given path (resolved against the current working directory), and returns it. Returns `undefined` if no filesystem is mounted at that path.
+   */
+  unmount(path: Pathish): SimpleFilesystem | undefined {
+    const target = this.computeAbsolutePath(path);
+    const fs = this.mounts.get(target);
+    this.mounts.delete(target);
+    return fs;
+  }
+
+  /**
+   * Returns all mount points and the filesystems mounted at them, sorted by {@linkcode Path.compare}.
+   */
+  getMounts(): [Path, SimpleFilesystem][] {
+    return [...this.mounts.entries()].sort(([a], [b]) => Path.compare(a, b));
   }
 
   /** @ignore */
@@ -840,22 +5090,43 @@ export class MemoryFs implements SimpleFilesystem {
     return path_.isAbsolute() ? path_ : this.workingDirectory.concat(path_);
   }
 
+  // Returns the filesystem responsible for the given absolute path and the corresponding path within that filesystem, or `undefined` if no filesystem is mounted at a prefix of the path.
+  /** @ignore */
+  private route(path: Path): [SimpleFilesystem, Path, Path] | undefined {
+    const mount = this.mounts.longestPrefixOf(path);
+
+    if (mount === undefined) {
+      return undefined;
+    } else {
+      return [
+        mount[1],
+        Path.absolute(path.getComponents().slice(mount[0].getComponentCount())),
+        mount[0],
+      ];
+    }
+  }
+
+  // Returns whether the given absolute path is the root, a mount point, or an ancestor of a mount point; these are always directories.
+  /** @ignore */
+  private isMountDirectory(path: Path): boolean {
+    return path.getComponentCount() === 0 ||
+      !this.mounts.entriesUnder(path).next().done;
+  }
+
   pwd(): Path {
     return this.workingDirectory;
   }
 
   cd(path: Pathish): void {
     const target = this.computeAbsolutePath(path);
+    const kind = this.statSync(target);
 
-    const resolved = this.resolveAbsolutePath(target, false);
-
-    if (resolved[0] === "nothing") {
-      throw new MemoryFsError(NO_SUCH_FILE);
-    } else if (resolved[0] instanceof MemoryDirectory) {
-      this.workingDirectory = target;
-      return;
+    if (kind === "nothing") {
+      throw new MountFsError(NO_SUCH_FILE);
+    } else if (kind === "data") {
+      throw new MountFsError(EXPECTED_DIRECTORY_GOT_DATA);
     } else {
-      throw new MemoryFsError(EXPECTED_DIRECTORY_GOT_DATA);
+      this.workingDirectory = target;
     }
   }
 
@@ -867,22 +5138,38 @@ export class MemoryFs implements SimpleFilesystem {
     const target = this.computeAbsolutePath(
       path === undefined ? Path.relative([]) : path,
     );
+    const routed = this.route(target);
 
-    const resolved = this.resolveAbsolutePath(target, false);
+    if (!this.isMountDirectory(target)) {
+      if (routed === undefined) {
+        throw new MountFsError(NO_SUCH_FILE);
+      } else {
+        return routed[0].lsSync(routed[1]);
+      }
+    }
 
-    if (resolved[0] === "nothing") {
-      throw new MemoryFsError(NO_SUCH_FILE);
-    } else if (resolved[0] instanceof MemoryDirectory) {
-      const ret = new Set<string>();
+    const ret = new Set<string>();
 
-      for (const component of resolved[0].contents.keys()) {
+    if (
+      routed !== undefined &&
+      statOrNothing(routed[0], routed[1]) === "directory"
+    ) {
+      for (const component of routed[0].lsSync(routed[1])) {
         ret.add(component);
       }
+    }
 
-      return ret;
-    } else {
-      throw new MemoryFsError(EXPECTED_DIRECTORY_GOT_DATA);
+    const depth = target.getComponentCount();
+
+    for (const [mountPoint] of this.mounts.entriesUnder(target)) {
+      const component = mountPoint.getIthComponent(depth);
+
+      if (component !== undefined) {
+        ret.add(component);
+      }
     }
+
+    return ret;
   }
 
   stat(path: Pathish): Promise<"directory" | "data" | "nothing"> {
@@ -892,14 +5179,22 @@ export class MemoryFs implements SimpleFilesystem {
   statSync(path: Pathish): "directory" | "data" | "nothing" {
     const target = this.computeAbsolutePath(path);
 
-    const resolved = this.resolveAbsolutePath(target, false);
+    if (this.isMountDirectory(target)) {
+      return "directory";
+    }
 
-    if (resolved[0] === "nothing") {
+    const routed = this.route(target);
+
+    if (routed !== undefined) {
+      return routed[0].statSync(routed[1]);
+    } else if (
+      this.isMountDirectory(
+        Path.absolute(target.getComponents().slice(0, -1)),
+      )
+    ) {
       return "nothing";
-    } else if (resolved[0] instanceof MemoryDirectory) {
-      return "directory";
     } else {
-      return "data";
+      throw new MountFsError(NO_SUCH_FILE);
     }
   }
 
@@ -910,14 +5205,16 @@ export class MemoryFs implements SimpleFilesystem {
   readSync(path: Pathish): Uint8Array {
     const target = this.computeAbsolutePath(path);
 
-    const resolved = this.resolveAbsolutePath(target, false);
+    if (this.isMountDirectory(target)) {
+      throw new MountFsError(EXPECTED_DATA_GOT_DIRECTORY);
+    }
 
-    if (resolved[0] === "nothing") {
-      throw new MemoryFsError(NO_SUCH_FILE);
-    } else if (resolved[0] instanceof MemoryDirectory) {
-      throw new MemoryFsError(EXPECTED_DATA_GOT_DIRECTORY);
+    const routed = this.route(target);
+
+    if (routed === undefined) {
+      throw new MountFsError(NO_SUCH_FILE);
     } else {
-      return resolved[0];
+      return routed[0].readSync(routed[1]);
     }
   }
 
@@ -928,294 +5225,564 @@ export class MemoryFs implements SimpleFilesystem {
   writeSync(path: Pathish, data: Uint8Array, mode: Mode = "timid"): void {
     const target = this.computeAbsolutePath(path);
 
-    const resolved = this.resolveAbsolutePath(target, true);
+    if (this.isMountDirectory(target)) {
+      replaceMountDirectory(mode);
+      return;
+    }
 
-    if (resolved[0] === "nothing") {
-      if (resolved[1] === undefined) {
-        throw new MemoryFsError(CANNOT_TURN_ROOT_INTO_DATA_FILE);
+    const routed = this.route(target);
+
+    if (routed === undefined) {
+      throw new MountFsError(NOT_MOUNTED);
+    } else {
+      routed[0].writeSync(routed[1], data, mode);
+    }
+  }
+
+  mkdir(path: Pathish, mode: Mode = "timid"): Promise<void> {
+    return Promise.resolve(this.mkdirSync(path, mode));
+  }
+
+  mkdirSync(path: Pathish, mode: Mode = "timid"): void {
+    const target = this.computeAbsolutePath(path);
+
+    if (this.isMountDirectory(target)) {
+      replaceMountDirectory(mode);
+      return;
+    }
+
+    const routed = this.route(target);
+
+    if (routed === undefined) {
+      throw new MountFsError(NOT_MOUNTED);
+    } else {
+      routed[0].mkdirSync(routed[1], mode);
+    }
+  }
+
+  remove(path: Pathish): Promise<void> {
+    return Promise.resolve(this.removeSync(path));
+  }
+
+  removeSync(path: Pathish): void {
+    const target = this.computeAbsolutePath(path);
+
+    if (this.isMountDirectory(target)) {
+      throw new MountFsError(CANNOT_CHANGE_MOUNT_POINT);
+    }
+
+    const routed = this.route(target);
+
+    if (routed !== undefined) {
+      routed[0].removeSync(routed[1]);
+    }
+  }
+
+  copy(src: Pathish, dst: Pathish, mode: Mode = "timid"): Promise<void> {
+    return Promise.resolve(this.copySync(src, dst, mode));
+  }
+
+  copySync(src: Pathish, dst: Pathish, mode: Mode = "timid"): void {
+    return this.copyOrMoveSync(src, dst, false, mode);
+  }
+
+  move(src: Pathish, dst: Pathish, mode: Mode = "timid"): Promise<void> {
+    return Promise.resolve(this.moveSync(src, dst, mode));
+  }
+
+  moveSync(src: Pathish, dst: Pathish, mode: Mode = "timid"): void {
+    return this.copyOrMoveSync(src, dst, true, mode);
+  }
+
+  /** @ignore */
+  private copyOrMoveSync(
+    src: Pathish,
+    dst: Pathish,
+    removeSrc: boolean,
+    mode: Mode,
+  ): void {
+    const srcAbsolute = this.computeAbsolutePath(src);
+    const dstAbsolute = this.computeAbsolutePath(dst);
+
+    if (removeSrc && srcAbsolute.prefixes(dstAbsolute)) {
+      throw new MountFsError(CANNOT_MOVE_INTO_ITSELF);
+    } else if (removeSrc && isProperAncestor(dstAbsolute, srcAbsolute)) {
+      throw new MountFsError(CANNOT_MOVE_ONTO_ANCESTOR);
+    } else if (removeSrc && this.isMountDirectory(srcAbsolute)) {
+      throw new MountFsError(CANNOT_CHANGE_MOUNT_POINT);
+    }
+
+    const srcRouted = this.route(srcAbsolute);
+    const dstRouted = this.route(dstAbsolute);
+
+    if (
+      srcRouted !== undefined && dstRouted !== undefined &&
+      srcRouted[2].equals(dstRouted[2]) &&
+      !this.isMountDirectory(srcAbsolute) &&
+      !this.isMountDirectory(dstAbsolute)
+    ) {
+      // Both paths lie within the same mounted filesystem.
+      if (removeSrc) {
+        srcRouted[0].moveSync(srcRouted[1], dstRouted[1], mode);
       } else {
-        resolved[1].contents.set(target.getFinalComponent()!, data);
+        srcRouted[0].copySync(srcRouted[1], dstRouted[1], mode);
       }
-    } else {
+
+      return;
+    }
+
+    if (this.statSync(srcAbsolute) === "nothing") {
+      throw new MountFsError(NO_SUCH_FILE);
+    }
+
+    if (this.statSync(dstAbsolute) !== "nothing") {
       if (mode === "timid") {
-        throw new MemoryFsError(TIMID);
+        throw new MountFsError(TIMID);
       } else if (mode === "placid") {
-        // Do nothing.
-      } else {
-        if (resolved[1] === undefined) {
-          throw new MemoryFsError(CANNOT_TURN_ROOT_INTO_DATA_FILE);
-        } else {
-          resolved[1].contents.set(target.getFinalComponent()!, data);
+        if (removeSrc) {
+          this.removeSync(srcAbsolute);
         }
+
+        return;
+      } else if (this.isMountDirectory(dstAbsolute)) {
+        throw new MountFsError(CANNOT_CHANGE_MOUNT_POINT);
+      }
+    }
+
+    writeFileTree(this, dstAbsolute, readFileTree(this, srcAbsolute));
+
+    if (removeSrc) {
+      this.removeSync(srcAbsolute);
+    }
+  }
+}
+
+// Implements writing over the root, a mount point, or an ancestor of a mount point with the given mode.
+function replaceMountDirectory(mode: Mode) {
+  if (mode === "timid") {
+    throw new MountFsError(TIMID);
+  } else if (mode === "assertive") {
+    throw new MountFsError(CANNOT_CHANGE_MOUNT_POINT);
+  }
+}
+
+/**
+ * The type of errors thrown by {@linkcode MountFs} operations themselves; errors of the mounted filesystems are passed through unchanged. The `name` of these errors property is always `"MountFsError"`.
+ */
+export class MountFsError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, MountFsError.prototype);
+    this.name = "MountFsError";
+  }
+}
+
+/**
+ * A {@linkcode SimpleFilesystem} whose root is a directory of another filesystem, obtained from {@linkcode SimpleFilesystemExt.subtree | FilesystemExt.subtree}. It has its own current working directory (initially its root), and all paths are resolved within the subtree: absolute paths start at the root of the subtree, and relative paths which would step above that root (via `..`) throw (or reject with) {@linkcode PathEscapeError | PathEscapeErrors}. Hence, nothing outside the subtree can be addressed at all.
+ *
+ * The root of the subtree cannot be removed, moved, or turned into a data file. All operations are forwarded to the underlying filesystem; the optional methods of {@linkcode SimpleFilesystem} use the {@linkcode FilesystemExt} fallbacks if the underlying filesystem does not implement them.
+ */
+export class SubtreeFs implements SimpleFilesystem {
+  /** @ignore */
+  private readonly fs: FilesystemExt<SimpleFilesystem>;
+  /** @ignore */
+  private readonly root: Path;
+  /** @ignore */
+  private workingDirectory: Path;
+
+  /**
+   * Creates a view of the directory at the given absolute path of the given filesystem. Throws if the path does not address a directory.
+   */
+  constructor(fs: SimpleFilesystem, root: Path) {
+    if (!root.isAbsolute() || fs.statSync(root) !== "directory") {
+      throw new SubtreeFsError(NO_DIRECTORY_FOR_SUBTREE);
+    }
+
+    this.fs = new FilesystemExt(fs);
+    this.root = root;
+    this.workingDirectory = Path.absolute([]);
+  }
+
+  // Resolves the given path against the current working directory, throwing if it would lead out of the subtree.
+  /** @ignore */
+  private computeAbsolutePath(path: Pathish): Path {
+    const path_ = Path.fromPathish(path);
+
+    if (path_.isAbsolute()) {
+      return path_;
+    }
+
+    return Path.resolveWithin(
+      Path.absolute([]),
+      Path.relative(this.workingDirectory.getComponents()).concat(path_),
+    );
+  }
+
+  // Returns the path of the underlying filesystem which corresponds to the given path of the subtree.
+  /** @ignore */
+  private outerPath(path: Pathish): Path {
+    return Path.absolute([
+      ...this.root.getComponents(),
+      ...this.computeAbsolutePath(path).getComponents(),
+    ]);
+  }
+
+  // Calls `fn`, turning errors it throws synchronously (such as those of resolving paths) into rejections.
+  /** @ignore */
+  private rejectErrors<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return fn();
+    } catch (err) {
+      return Promise.reject(err);
+    }
+  }
+
+  // Returns whether the given path of the subtree addresses its root.
+  /** @ignore */
+  private isRoot(path: Pathish): boolean {
+    return this.outerPath(path).equals(this.root);
+  }
+
+  pwd(): Path {
+    return this.workingDirectory;
+  }
+
+  cd(path: Pathish): void {
+    const target = this.computeAbsolutePath(path);
+    const kind = this.fs.statSync(this.outerPath(target));
+
+    if (kind === "nothing") {
+      throw new SubtreeFsError(NO_SUCH_FILE);
+    } else if (kind === "data") {
+      throw new SubtreeFsError(EXPECTED_DIRECTORY_GOT_DATA);
+    } else {
+      this.workingDirectory = target;
+    }
+  }
+
+  ls(path?: Pathish): Promise<Set<string>> {
+    return this.rejectErrors(() =>
+      this.fs.ls(this.outerPath(path ?? Path.relative([])))
+    );
+  }
+
+  lsSync(path?: Pathish): Set<string> {
+    return this.fs.lsSync(this.outerPath(path ?? Path.relative([])));
+  }
+
+  stat(path: Pathish): Promise<"directory" | "data" | "nothing"> {
+    return this.rejectErrors(() => this.fs.stat(this.outerPath(path)));
+  }
+
+  statSync(path: Pathish): "directory" | "data" | "nothing" {
+    return this.fs.statSync(this.outerPath(path));
+  }
+
+  read(path: Pathish): Promise<Uint8Array> {
+    return this.rejectErrors(() => this.fs.read(this.outerPath(path)));
+  }
+
+  readSync(path: Pathish): Uint8Array {
+    return this.fs.readSync(this.outerPath(path));
+  }
+
+  write(path: Pathish, data: Uint8Array, mode: Mode = "timid"): Promise<void> {
+    return this.rejectErrors(() => {
+      if (this.isRoot(path) && mode === "assertive") {
+        throw new SubtreeFsError(CANNOT_TURN_ROOT_INTO_DATA_FILE);
       }
+
+      return this.fs.write(this.outerPath(path), data, mode);
+    });
+  }
+
+  writeSync(path: Pathish, data: Uint8Array, mode: Mode = "timid"): void {
+    if (this.isRoot(path) && mode === "assertive") {
+      throw new SubtreeFsError(CANNOT_TURN_ROOT_INTO_DATA_FILE);
     }
+
+    this.fs.writeSync(this.outerPath(path), data, mode);
   }
 
   mkdir(path: Pathish, mode: Mode = "timid"): Promise<void> {
-    return Promise.resolve(this.mkdirSync(path, mode));
+    return this.rejectErrors(() => this.fs.mkdir(this.outerPath(path), mode));
   }
 
   mkdirSync(path: Pathish, mode: Mode = "timid"): void {
-    const target = this.computeAbsolutePath(path);
-
-    const resolved = this.resolveAbsolutePath(target, true);
-
-    if (resolved[0] === "nothing") {
-      if (resolved[1] === undefined) {
-        throw "unreachable";
-      } else {
-        resolved[1].contents.set(
-          target.getFinalComponent()!,
-          new MemoryDirectory(),
-        );
-      }
-    } else {
-      if (mode === "timid") {
-        throw new MemoryFsError(TIMID);
-      } else if (mode === "placid") {
-        // Do nothing.
-      } else {
-        if (resolved[1] === undefined) {
-          this.root.contents.clear();
-        } else {
-          resolved[1].contents.set(
-            target.getFinalComponent()!,
-            new MemoryDirectory(),
-          );
-        }
-      }
-    }
+    this.fs.mkdirSync(this.outerPath(path), mode);
   }
 
   remove(path: Pathish): Promise<void> {
-    return Promise.resolve(this.removeSync(path));
+    return this.rejectErrors(() => {
+      if (this.isRoot(path)) {
+        throw new SubtreeFsError(CANNOT_DELETE_ROOT);
+      }
+
+      return this.fs.remove(this.outerPath(path));
+    });
   }
 
   removeSync(path: Pathish): void {
-    const target = this.computeAbsolutePath(path);
-
-    const resolved = this.resolveAbsolutePath(target, true);
-
-    if (resolved[0] === "nothing") {
-      // Do nothing.
-    } else if (resolved[1] === undefined) {
-      throw new MemoryFsError(CANNOT_DELETE_ROOT);
-    } else {
-      resolved[1].contents.delete(
-        target.getFinalComponent()!,
-      );
+    if (this.isRoot(path)) {
+      throw new SubtreeFsError(CANNOT_DELETE_ROOT);
     }
+
+    this.fs.removeSync(this.outerPath(path));
   }
 
   copy(src: Pathish, dst: Pathish, mode: Mode = "timid"): Promise<void> {
-    return Promise.resolve(this.copySync(src, dst, mode));
+    return this.rejectErrors(() => {
+      if (this.isRoot(dst)) {
+        throw new SubtreeFsError(CANNOT_COPY_OR_MOVE_INTO_ROOT);
+      }
+
+      return this.fs.copy(this.outerPath(src), this.outerPath(dst), mode);
+    });
   }
 
   copySync(src: Pathish, dst: Pathish, mode: Mode = "timid"): void {
-    return this.copyOrMoveSync(src, dst, false, mode);
+    if (this.isRoot(dst)) {
+      throw new SubtreeFsError(CANNOT_COPY_OR_MOVE_INTO_ROOT);
+    }
+
+    this.fs.copySync(this.outerPath(src), this.outerPath(dst), mode);
   }
 
   move(src: Pathish, dst: Pathish, mode: Mode = "timid"): Promise<void> {
-    return Promise.resolve(this.moveSync(src, dst, mode));
+    return this.rejectErrors(() => {
+      if (this.isRoot(src)) {
+        throw new SubtreeFsError(CANNOT_MOVE_ROOT);
+      } else if (this.isRoot(dst)) {
+        throw new SubtreeFsError(CANNOT_COPY_OR_MOVE_INTO_ROOT);
+      }
+
+      return this.fs.move(this.outerPath(src), this.outerPath(dst), mode);
+    });
   }
 
   moveSync(src: Pathish, dst: Pathish, mode: Mode = "timid"): void {
-    return this.copyOrMoveSync(src, dst, true, mode);
+    if (this.isRoot(src)) {
+      throw new SubtreeFsError(CANNOT_MOVE_ROOT);
+    } else if (this.isRoot(dst)) {
+      throw new SubtreeFsError(CANNOT_COPY_OR_MOVE_INTO_ROOT);
+    }
+
+    this.fs.moveSync(this.outerPath(src), this.outerPath(dst), mode);
   }
 
-  copyOrMoveSync(
-    src: Pathish,
-    dst: Pathish,
-    removeSrc: boolean,
-    mode: Mode,
-  ): void {
-    const srcAbsolute = this.computeAbsolutePath(src);
-    const srcResolved = this.resolveAbsolutePath(srcAbsolute, false);
+  readStream(path: Pathish): ReadableStream<Uint8Array> {
+    return this.fs.readStream(this.outerPath(path));
+  }
 
-    if (srcResolved[0] === "nothing") {
-      throw new MemoryFsError(NO_SUCH_FILE);
-    } else {
-      const dstAbsolute = this.computeAbsolutePath(dst);
-      const dstResolved = this.resolveAbsolutePath(dstAbsolute, true);
+  writeStream(path: Pathish, mode: Mode = "timid"): WritableStream<Uint8Array> {
+    if (this.isRoot(path) && mode === "assertive") {
+      return new WritableStream({
+        start: (controller) => {
+          controller.error(
+            new SubtreeFsError(CANNOT_TURN_ROOT_INTO_DATA_FILE),
+          );
+        },
+      });
+    }
 
-      if (dstResolved[0] === "nothing") {
-        if (dstResolved[1] === undefined) {
-          throw new MemoryFsError(CANNOT_COPY_OR_MOVE_INTO_ROOT);
-        } else {
-          if (srcResolved[0] instanceof MemoryDirectory) {
-            dstResolved[1].contents.set(
-              dstAbsolute.getFinalComponent()!,
-              srcResolved[0].clone(),
-            );
-          } else {
-            dstResolved[1].contents.set(
-              dstAbsolute.getFinalComponent()!,
-              new Uint8Array(srcResolved[0]),
-            );
-          }
+    return this.fs.writeStream(this.outerPath(path), mode);
+  }
 
-          if (removeSrc) {
-            this.removeSync(src);
-          }
-        }
-      } else {
-        if (dstResolved[1] === undefined) {
-          throw new MemoryFsError(CANNOT_COPY_OR_MOVE_INTO_ROOT);
-        } else {
-          if (mode === "timid") {
-            throw new MemoryFsError(TIMID);
-          } else if (mode === "placid") {
-            if (removeSrc) {
-              this.removeSync(src);
-            }
-            // Do nothing.
-          } else {
-            if (srcResolved[0] instanceof MemoryDirectory) {
-              dstResolved[1].contents.set(
-                dstAbsolute.getFinalComponent()!,
-                srcResolved[0].clone(),
-              );
-            } else {
-              dstResolved[1].contents.set(
-                dstAbsolute.getFinalComponent()!,
-                new Uint8Array(srcResolved[0]),
-              );
-            }
+  readRange(
+    path: Pathish,
+    offset: number,
+    length: number,
+  ): Promise<Uint8Array> {
+    return this.rejectErrors(() =>
+      this.fs.readRange(this.outerPath(path), offset, length)
+    );
+  }
 
-            if (removeSrc) {
-              this.removeSync(src);
-            }
-          }
-        }
+  readRangeSync(path: Pathish, offset: number, length: number): Uint8Array {
+    return this.fs.readRangeSync(this.outerPath(path), offset, length);
+  }
+
+  append(
+    path: Pathish,
+    data: Uint8Array,
+    mode: Mode = "timid",
+  ): Promise<void> {
+    return this.rejectErrors(() => {
+      if (this.isRoot(path) && mode === "assertive") {
+        throw new SubtreeFsError(CANNOT_TURN_ROOT_INTO_DATA_FILE);
       }
+
+      return this.fs.append(this.outerPath(path), data, mode);
+    });
+  }
+
+  appendSync(path: Pathish, data: Uint8Array, mode: Mode = "timid"): void {
+    if (this.isRoot(path) && mode === "assertive") {
+      throw new SubtreeFsError(CANNOT_TURN_ROOT_INTO_DATA_FILE);
     }
+
+    this.fs.appendSync(this.outerPath(path), data, mode);
   }
+}
 
-  /**
-   * Create a populated `MemoryFs` (with a current working directory of `/`) from a given {@linkcode MemoryFsLiteral}.
-   *
-   * Throws if any of the strings is not a valid {@link Path.isComponent | component}.
-   */
-  static fromLiteral(literal: MemoryFsLiteral): MemoryFs {
-    const fs = new MemoryFs();
-    fs.root = MemoryDirectory.fromLiteral(literal);
-    return fs;
+/**
+ * The type of errors thrown by {@linkcode SubtreeFs} operations themselves; errors of the underlying filesystem are passed through unchanged. The `name` of these errors property is always `"SubtreeFsError"`.
+ */
+export class SubtreeFsError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, SubtreeFsError.prototype);
+    this.name = "SubtreeFsError";
   }
 }
 
 /**
- * The argument for {@linkcode MemoryFs.fromLiteral}, use this to create an immediately populated {@linkcode MemoryFs}, usually for testing.
+ * A {@linkcode SimpleFilesystem} which wraps a {@linkcode ReadableSimpleFilesystem}, passing through all operations which do not change any files, and rejecting (or throwing) a {@linkcode ReadOnlyFsError} for all others.
  *
- * A `MemoryFsLiteral` is basically an object literal. The keys must be valid {@link Path.isComponent | components}, and the values either turn into file contents (if strings), or into nested directories (if nested `MemoryFsLiteral`s).
+ * The optional methods for streaming and ranged reads are present exactly if the wrapped filesystem implements them; wrap the `ReadOnlyFs` in a {@linkcode FilesystemExt} to use them regardless.
  */
-export type MemoryFsLiteral = { [key: string]: string | MemoryFsLiteral };
+export class ReadOnlyFs implements SimpleFilesystem {
+  /** @ignore */
+  private readonly fs: ReadableSimpleFilesystem;
 
-class MemoryDirectory {
-  contents: Map<string, MemoryDirectory | Uint8Array>;
+  /**
+   * Passes through {@linkcode ReadableSimpleFilesystem.readStream} of the wrapped filesystem, if it implements it.
+   */
+  readStream?: (path: Pathish) => ReadableStream<Uint8Array>;
 
-  constructor(contents?: Map<string, MemoryDirectory | Uint8Array>) {
-    if (contents === undefined) {
-      this.contents = new Map();
-    } else {
-      this.contents = contents;
-    }
-  }
+  /**
+   * Passes through {@linkcode ReadableSimpleFilesystem.readRange} of the wrapped filesystem, if it implements it.
+   */
+  readRange?: (
+    path: Pathish,
+    offset: number,
+    length: number,
+  ) => Promise<Uint8Array>;
 
-  resolveAbsolutePath(
+  /**
+   * Passes through {@linkcode ReadableSimpleFilesystem.readRangeSync} of the wrapped filesystem, if it implements it.
+   */
+  readRangeSync?: (
     path: Pathish,
-    createParentDirs = false,
-  ): [
-    MemoryDirectory | Uint8Array | "nothing",
-    MemoryDirectory | undefined, /* parent dir */
-  ] {
-    const path_ = Path.fromPathish(path);
+    offset: number,
+    length: number,
+  ) => Uint8Array;
 
-    const firstComponent = path_.getIthComponent(0);
-    const popped = path_.popFront()!;
-    const componentCount = path_.getComponentCount();
+  /**
+   * Wraps a filesystem, so that it cannot be changed through the wrapper.
+   */
+  constructor(fs: ReadableSimpleFilesystem) {
+    this.fs = fs;
 
-    if (firstComponent === undefined) {
-      return [this, undefined];
-    } else {
-      const file = this.contents.get(firstComponent);
+    if (fs.readStream !== undefined) {
+      this.readStream = (path) => fs.readStream!(path);
+    }
 
-      if (file === undefined) {
-        if (createParentDirs) {
-          if (componentCount === 1) {
-            return ["nothing", this];
-          } else {
-            const newDir = new MemoryDirectory();
-            this.contents.set(firstComponent, newDir);
-            return newDir.resolveAbsolutePath(popped, createParentDirs);
-          }
-        } else {
-          if (componentCount === 1) {
-            return ["nothing", this];
-          } else {
-            throw new MemoryFsError(NO_SUCH_FILE);
-          }
-        }
-      } else if (file instanceof MemoryDirectory) {
-        if (componentCount === 1) {
-          return [file, this];
-        } else {
-          return file.resolveAbsolutePath(popped, createParentDirs);
-        }
-      } else {
-        if (componentCount === 1) {
-          return [file, this];
-        } else {
-          throw new MemoryFsError(EXPECTED_DIRECTORY_GOT_DATA);
-        }
-      }
+    if (fs.readRange !== undefined) {
+      this.readRange = (path, offset, length) =>
+        fs.readRange!(path, offset, length);
+    }
+
+    if (fs.readRangeSync !== undefined) {
+      this.readRangeSync = (path, offset, length) =>
+        fs.readRangeSync!(path, offset, length);
     }
   }
 
-  static fromLiteral(literal: MemoryFsLiteral): MemoryDirectory {
-    const dir = new MemoryDirectory();
+  pwd(): Path {
+    return this.fs.pwd();
+  }
 
-    for (const comp in literal) {
-      if (Path.isComponent(comp)) {
-        const val = literal[comp];
+  cd(path: Pathish): void {
+    this.fs.cd(path);
+  }
 
-        if (typeof val === "string") {
-          const encoder = new TextEncoder();
-          const bytes = encoder.encode(val);
-          dir.contents.set(comp, bytes);
-        } else {
-          const nestedDir = MemoryDirectory.fromLiteral(val);
-          dir.contents.set(comp, nestedDir);
-        }
-      } else {
-        throw `Invalid MemoryFsLiteral: ${comp} is not a valid Path component.`;
-      }
-    }
+  ls(path?: Pathish): Promise<Set<string>> {
+    return this.fs.ls(path);
+  }
 
-    return dir;
+  lsSync(path?: Pathish): Set<string> {
+    return this.fs.lsSync(path);
+  }
+
+  stat(path: Pathish): Promise<"directory" | "data" | "nothing"> {
+    return this.fs.stat(path);
   }
 
-  clone(): MemoryDirectory {
-    const theClone = new MemoryDirectory();
+  statSync(path: Pathish): "directory" | "data" | "nothing" {
+    return this.fs.statSync(path);
+  }
 
-    for (const [component, file] of this.contents.entries()) {
-      if (file instanceof MemoryDirectory) {
-        theClone.contents.set(component, file.clone());
-      } else {
-        theClone.contents.set(component, new Uint8Array(file));
-      }
-    }
+  read(path: Pathish): Promise<Uint8Array> {
+    return this.fs.read(path);
+  }
+
+  readSync(path: Pathish): Uint8Array {
+    return this.fs.readSync(path);
+  }
 
-    return theClone;
+  write(path: Pathish, _data: Uint8Array, _mode?: Mode): Promise<void> {
+    return Promise.reject(new ReadOnlyFsError("write", path));
+  }
+
+  writeSync(path: Pathish, _data: Uint8Array, _mode?: Mode): void {
+    throw new ReadOnlyFsError("write", path);
+  }
+
+  mkdir(path: Pathish, _mode?: Mode): Promise<void> {
+    return Promise.reject(new ReadOnlyFsError("mkdir", path));
+  }
+
+  mkdirSync(path: Pathish, _mode?: Mode): void {
+    throw new ReadOnlyFsError("mkdir", path);
+  }
+
+  remove(path: Pathish): Promise<void> {
+    return Promise.reject(new ReadOnlyFsError("remove", path));
+  }
+
+  removeSync(path: Pathish): void {
+    throw new ReadOnlyFsError("remove", path);
+  }
+
+  copy(_src: Pathish, dst: Pathish, _mode?: Mode): Promise<void> {
+    return Promise.reject(new ReadOnlyFsError("copy", dst));
+  }
+
+  copySync(_src: Pathish, dst: Pathish, _mode?: Mode): void {
+    throw new ReadOnlyFsError("copy", dst);
+  }
+
+  move(src: Pathish, _dst: Pathish, _mode?: Mode): Promise<void> {
+    return Promise.reject(new ReadOnlyFsError("move", src));
+  }
+
+  moveSync(src: Pathish, _dst: Pathish, _mode?: Mode): void {
+    throw new ReadOnlyFsError("move", src);
   }
 }
 
 /**
- * The type of errors thrown by all {@linkcode MemoryFs} operations (except for the {@linkcode ConcatPathError | ConcatPathErrors} and {@linkcode ParseSimpleFsPathError | ParseSimpleFsPathErrors} which might also be thrown). The `name` of these errors property is always `"MemoryFsError"`.
+ * The error with which a {@linkcode ReadOnlyFs} rejects (or throws) for every operation that would change a file. The `name` of these errors property is always `"ReadOnlyFsError"`.
  */
-export class MemoryFsError extends Error {
-  constructor(message: string) {
-    super(message);
-    Object.setPrototypeOf(this, MemoryFsError.prototype);
-    this.name = "MemoryFsError";
+export class ReadOnlyFsError extends Error {
+  /**
+   * The name of the rejected operation (without any `Sync` suffix).
+   */
+  operation: "write" | "mkdir" | "remove" | "copy" | "move";
+  /**
+   * The path at which the operation would have changed a file (the destination for copies, the source for moves).
+   */
+  path: Pathish;
+
+  constructor(
+    operation: "write" | "mkdir" | "remove" | "copy" | "move",
+    path: Pathish,
+  ) {
+    super(`${READ_ONLY} Operation: ${operation}, path: ${path}`);
+    Object.setPrototypeOf(this, ReadOnlyFsError.prototype);
+    this.name = "ReadOnlyFsError";
+    this.operation = operation;
+    this.path = path;
   }
 }
@@ -1,10 +1,46 @@
-import { assert, assertEquals, assertThrows } from "@std/assert";
+import { assert, assertEquals, assertRejects, assertThrows } from "@std/assert";
 import {
+  applyPatch,
+  applyPatchSync,
+  createPatch,
+  createPatchSync,
+  decodePath,
+  DecodePathError,
+  encodePath,
+  EncodePathError,
+  type FileChange,
   FilesystemExt,
+  FileUrlError,
   MemoryFs,
+  MemoryFsError,
+  type MemoryFsEvent,
   type MemoryFsLiteral,
+  type Mode,
+  MountFs,
+  MountFsError,
+  normalizePath,
+  OverlayFs,
+  OverlayFsError,
+  parseGlob,
+  ParseGlobError,
+  parseNativePath,
   parsePath,
+  parsePathTemplate,
+  ParseSimpleFsPathError,
+  type Patch,
   Path,
+  PathEscapeError,
+  type Pathish,
+  PathMap,
+  PathSet,
+  PathTemplate,
+  PathTemplateError,
+  PathTrie,
+  ReadOnlyFs,
+  ReadOnlyFsError,
+  RelativePathError,
+  type SimpleFilesystem,
+  SubtreeFsError,
 } from "../mod.ts";
 
 Deno.test("Path.isComponent", async (t) => {
@@ -36,6 +72,104 @@ Deno.test("Path.isComponent", async (t) => {
   });
 });
 
+Deno.test("ComponentPolicy", async (t) => {
+  await t.step("minimal accepts everything isComponent accepts", () => {
+    assert(Path.isComponent("CON", "minimal"));
+    assert(Path.isComponent("a:b", "minimal"));
+    assert(!Path.isComponent("..", "minimal"));
+  });
+
+  await t.step("portable", () => {
+    assert(Path.isComponent("foo.txt", "portable"));
+    assert(Path.isComponent("...a", "portable"));
+    assert(Path.isComponent("console", "portable"));
+    assert(Path.isComponent("x".repeat(255), "portable"));
+
+    assert(!Path.isComponent("..", "portable"));
+    assert(!Path.isComponent("CON", "portable"));
+    assert(!Path.isComponent("con.txt", "portable"));
+    assert(!Path.isComponent("Lpt9", "portable"));
+    assert(!Path.isComponent("a:b", "portable"));
+    assert(!Path.isComponent("a\\b", "portable"));
+    assert(!Path.isComponent("a\nb", "portable"));
+    assert(!Path.isComponent("a\x7fb", "portable"));
+    assert(!Path.isComponent("what?", "portable"));
+    assert(!Path.isComponent("trailing.", "portable"));
+    assert(!Path.isComponent("trailing ", "portable"));
+    assert(!Path.isComponent("x".repeat(256), "portable"));
+    assert(!Path.isComponent("ü".repeat(128), "portable"));
+  });
+
+  await t.step("custom", () => {
+    const noUppercase = (component: string) =>
+      component === component.toLowerCase();
+
+    assert(Path.isComponent("foo", noUppercase));
+    assert(!Path.isComponent("Foo", noUppercase));
+    assert(!Path.isComponent(".", () => true));
+  });
+
+  await t.step("Path constructors", () => {
+    assertThrows(() => {
+      Path.absolute(["foo", "CON"], "portable");
+    });
+    assertThrows(() => {
+      Path.relative(["a:b"], 1, "portable");
+    });
+    assert(
+      Path.relative(["a:b"], 1).equals(Path.relative(["a:b"], 1, "minimal")),
+    );
+  });
+
+  await t.step("parsePath", () => {
+    assertThrows(() => {
+      parsePath("/foo/nul", { componentPolicy: "portable" });
+    }, ParseSimpleFsPathError);
+    assertThrows(() => {
+      parsePath("foo//aux", { componentPolicy: "portable", lenient: true });
+    }, ParseSimpleFsPathError);
+    assert(
+      parsePath("foo/CON/..", { componentPolicy: "portable" })
+        .equals(Path.relative(["foo"])),
+    );
+  });
+
+  await t.step("MemoryFs", () => {
+    const fs = new FilesystemExt(
+      MemoryFs.fromLiteral(testFsLiteral, { componentPolicy: "portable" }),
+    );
+
+    assertThrows(() => {
+      fs.writeStringSync("blog/aux", "hi");
+    }, MemoryFsError);
+    assertThrows(() => {
+      fs.mkdirSync("new/dir./inner");
+    }, MemoryFsError);
+    assertThrows(() => {
+      fs.copySync("blog", "Chess/blog");
+    }, MemoryFsError);
+    assertThrows(() => {
+      fs.moveSync("blog/recipes/curry", "blog/Recipes/curry");
+    }, MemoryFsError);
+    assertThrows(() => {
+      fs.writeStringSync("blog/posts/INTRO", "hi");
+    }, MemoryFsError);
+    assert(fs.eq(MemoryFs.fromLiteral(testFsLiteral)));
+
+    fs.writeStringSync("blog/posts/intro", "hi", "assertive");
+    fs.writeStringSync("blog/posts/outro", "bye");
+    assertEquals(fs.readStringSync("blog/posts/outro"), "bye");
+
+    assertThrows(() => {
+      MemoryFs.fromLiteral({ "a:b": "" }, { componentPolicy: "portable" });
+    });
+    assertThrows(() => {
+      MemoryFs.fromLiteral({ a: "", A: {} }, { componentPolicy: "portable" });
+    });
+    MemoryFs.fromLiteral({ a: "", A: {} });
+  });
+});
+
 Deno.test("Path constructors", async (t) => {
   await t.step("relative rejects invalid components", () => {
     assertThrows(() => {
@@ -80,6 +214,91 @@ Deno.test("parsePath", () => {
   assert(parsePath("/././foo/./bar/./.").equals(Path.absolute(["foo", "bar"])));
 });
 
+Deno.test("lenient parsePath", () => {
+  assertThrows(() => {
+    parsePath("foo/", { lenient: false });
+  });
+  assertThrows(() => {
+    parsePath("", { lenient: true });
+  }, ParseSimpleFsPathError);
+  assertThrows(() => {
+    parsePath("  ", { lenient: true, trimWhitespace: true });
+  }, ParseSimpleFsPathError);
+  assertThrows(() => {
+    parsePath("//..", { lenient: true });
+  }, ParseSimpleFsPathError);
+
+  assert(parsePath("//", { lenient: true }).equals(Path.absolute([])));
+  assert(
+    parsePath("/foo//bar/", { lenient: true })
+      .equals(Path.absolute(["foo", "bar"])),
+  );
+  assert(
+    parsePath("foo///../bar//", { lenient: true })
+      .equals(Path.relative(["bar"])),
+  );
+  assert(
+    parsePath(" foo ", { lenient: true }).equals(Path.relative([" foo "])),
+  );
+  assert(
+    parsePath(" foo/ ", { lenient: true, trimWhitespace: true })
+      .equals(Path.relative(["foo"])),
+  );
+});
+
+Deno.test("normalizePath", () => {
+  assertEquals(normalizePath("/foo/bar"), {
+    path: Path.absolute(["foo", "bar"]),
+    normalisations: [],
+  });
+  assertEquals(normalizePath("\tfoo//bar/\n", { trimWhitespace: true }), {
+    path: Path.relative(["foo", "bar"]),
+    normalisations: ["whitespace", "repeated slashes", "trailing slash"],
+  });
+  assertEquals(normalizePath("foo/"), {
+    path: Path.relative(["foo"]),
+    normalisations: ["trailing slash"],
+  });
+
+  const err = assertThrows(() => {
+    normalizePath("/foo//../..");
+  }, ParseSimpleFsPathError);
+  assertEquals(err.stringToParse, "/foo//../..");
+});
+
+Deno.test("parseNativePath", () => {
+  assert(parseNativePath("/foo/bar").equals(Path.absolute(["foo", "bar"])));
+  assert(
+    parseNativePath(Path.relative(["foo", "bar"], 2).toNativeString())
+      .equals(Path.relative(["foo", "bar"], 2)),
+  );
+
+  assert(
+    parseNativePath("\\foo\\.\\bar\\..\\baz", { backslashSeparators: true })
+      .equals(Path.absolute(["foo", "baz"])),
+  );
+  assert(
+    parseNativePath("..\\foo/bar", { backslashSeparators: true })
+      .equals(Path.relative(["foo", "bar"], 1)),
+  );
+  assert(
+    parseNativePath("foo\\bar", { backslashSeparators: false })
+      .equals(Path.relative(["foo\\bar"])),
+  );
+
+  const err = assertThrows(() => {
+    parseNativePath("foo\\\\bar", { backslashSeparators: true });
+  }, ParseSimpleFsPathError);
+  assertEquals(err.stringToParse, "foo\\\\bar");
+
+  assertThrows(() => {
+    parseNativePath("C:\\foo", { backslashSeparators: true });
+  }, ParseSimpleFsPathError);
+  assertThrows(() => {
+    parseNativePath("");
+  }, ParseSimpleFsPathError);
+});
+
 Deno.test("Path.toString", () => {
   assertEquals(Path.absolute([]).toString(), "/");
   assertEquals(Path.absolute(["foo"]).toString(), "/foo");
@@ -143,6 +362,436 @@ Deno.test("Path.concat", () => {
   assertEquals(Path.relative(["foo"]).concat("../.."), Path.relative([], 1));
 });
 
+Deno.test("Path.compare", () => {
+  const sorted = [
+    "/",
+    "/a",
+    "/a/a",
+    "/a/b",
+    "/b",
+    "/ba",
+    ".",
+    "A",
+    "a",
+    "a/a",
+    "b",
+    "..",
+    "../a",
+    "../..",
+    "../../a",
+  ];
+
+  for (let i = 0; i < sorted.length; i++) {
+    assertEquals(parsePath(sorted[i]).compare(sorted[i]), 0);
+
+    for (let j = i + 1; j < sorted.length; j++) {
+      assert(
+        parsePath(sorted[i]).compare(sorted[j]) < 0,
+        `${sorted[i]} < ${sorted[j]}`,
+      );
+      assert(
+        parsePath(sorted[j]).compare(sorted[i]) > 0,
+        `${sorted[j]} > ${sorted[i]}`,
+      );
+    }
+  }
+
+  const shuffled = [...sorted].reverse().map((str) => parsePath(str));
+  assertEquals(
+    shuffled.sort(Path.compare).map((path) => path.toString()),
+    sorted,
+  );
+});
+
+Deno.test("Path.hash", () => {
+  assertEquals(Path.absolute([]).hash(), 0x2a0c975e);
+  assertEquals(Path.relative(["foo", "bar"]).hash(), 0xc7a71bed);
+  assertEquals(
+    parsePath("/foo/../bar").hash(),
+    Path.absolute(["bar"]).hash(),
+  );
+  assert(Path.absolute(["foo"]).hash() !== Path.relative(["foo"]).hash());
+  assert(Number.isInteger(Path.relative([], 3).hash()));
+  assert(Path.relative(["ü"], 3).hash() >= 0);
+});
+
+Deno.test("Path.resolveWithin", () => {
+  assertEquals(
+    Path.resolveWithin("/sandbox", "foo/bar"),
+    Path.absolute(["sandbox", "foo", "bar"]),
+  );
+  assertEquals(
+    Path.resolveWithin("/sandbox", "foo/../bar"),
+    Path.absolute(["sandbox", "bar"]),
+  );
+  assertEquals(
+    Path.resolveWithin("/sandbox", "."),
+    Path.absolute(["sandbox"]),
+  );
+  assertEquals(
+    Path.resolveWithin("../sandbox", "./foo"),
+    Path.relative(["sandbox", "foo"], 1),
+  );
+  assertEquals(Path.resolveWithin("/", "foo"), Path.absolute(["foo"]));
+
+  const err = assertThrows(() => {
+    Path.resolveWithin("/sandbox", "../sandbox/foo");
+  }, PathEscapeError);
+  assertEquals(err.base, Path.absolute(["sandbox"]));
+  assertEquals(err.untrusted, Path.relative(["sandbox", "foo"], 1));
+
+  assertThrows(() => {
+    Path.resolveWithin("sandbox", "foo/../../x");
+  }, PathEscapeError);
+  assertThrows(() => {
+    Path.resolveWithin("/", "..");
+  }, PathEscapeError);
+  assertThrows(() => {
+    Path.resolveWithin("/sandbox", "/etc/passwd");
+  }, PathEscapeError);
+  assertThrows(() => {
+    Path.resolveWithin("/sandbox", "foo//bar");
+  }, ParseSimpleFsPathError);
+});
+
+Deno.test("Path.relativeTo", () => {
+  const cases: [string, string, string][] = [
+    ["/", "/", "."],
+    ["/", "/foo/bar", "foo/bar"],
+    ["/foo/bar", "/", "../.."],
+    ["/foo/bar", "/foo/baz", "../baz"],
+    ["/foo/bar", "/foo/bar/baz", "baz"],
+    ["/foo/bar", "/qux", "../../qux"],
+    [".", "foo", "foo"],
+    ["foo", ".", ".."],
+    ["foo/bar", "foo/baz/qux", "../baz/qux"],
+    ["../foo", "../bar", "../bar"],
+    ["foo", "../bar", "../../bar"],
+    ["../foo", "../../bar", "../../bar"],
+    [".", "..", ".."],
+  ];
+
+  for (const [base, target, expected] of cases) {
+    const relative = parsePath(target).relativeTo(base);
+    assertEquals(relative, parsePath(expected), `${base} -> ${target}`);
+    assert(parsePath(base).concat(relative).equals(target));
+  }
+
+  assertThrows(() => {
+    parsePath("/foo").relativeTo("foo");
+  }, RelativePathError);
+  assertThrows(() => {
+    parsePath("foo").relativeTo("/foo");
+  }, RelativePathError);
+  assertThrows(() => {
+    parsePath("../foo").relativeTo("../../foo");
+  }, RelativePathError);
+});
+
+Deno.test("PathTemplate", async (t) => {
+  await t.step("parsing", () => {
+    const invalid = [
+      "",
+      "/users//:id",
+      "/users/:id/",
+      "users/../:id",
+      "/:",
+      "/:id/:id",
+      "/:id/*id",
+      "/*a/*b",
+      "/a*rest",
+      "/*rest:id",
+      "/foo\\",
+      "/..",
+    ];
+
+    for (const template of invalid) {
+      assertThrows(() => {
+        new PathTemplate(template);
+      }, PathTemplateError);
+    }
+  });
+
+  await t.step("match", () => {
+    const template = parsePathTemplate("/users/:id/posts/*rest.json");
+    const params: { id: string; rest: string[] } | undefined = template.match(
+      "/users/alice/posts/2024/hello.json",
+    );
+
+    assertEquals(params, { id: "alice", rest: ["2024", "hello"] });
+    assertEquals(template.match("/users/alice/posts/x.json"), {
+      id: "alice",
+      rest: ["x"],
+    });
+    assertEquals(template.match("/users/alice/posts/x.txt"), undefined);
+    assertEquals(template.match("/users/alice/posts/.json"), undefined);
+    assertEquals(template.match("/users/alice/posts"), undefined);
+    assertEquals(template.match("users/alice/posts/x.json"), undefined);
+
+    assertEquals(parsePathTemplate(":name.:ext").match("foo.tar.gz"), {
+      name: "foo",
+      ext: "tar.gz",
+    });
+    assertEquals(parsePathTemplate("*all").match("a/b"), { all: ["a", "b"] });
+    assertEquals(parsePathTemplate("*all/x").match("a/b/x"), {
+      all: ["a", "b"],
+    });
+    assertEquals(parsePathTemplate("../:a").match("../b"), { a: "b" });
+    assertEquals(parsePathTemplate("../:a").match("b"), undefined);
+    assertEquals(parsePathTemplate("/").match("/"), {});
+    assertEquals(parsePathTemplate("\\:literal").match(":literal"), {});
+    assertEquals(parsePathTemplate("a.b").match("axb"), undefined);
+  });
+
+  await t.step("build", () => {
+    const template = parsePathTemplate("/users/:id/posts/*rest.json");
+
+    assertEquals(
+      template.build({ id: "alice", rest: ["2024", "hello"] }),
+      Path.absolute(["users", "alice", "posts", "2024", "hello.json"]),
+    );
+    assertThrows(() => {
+      template.build({ id: "al/ice", rest: ["x"] });
+    }, PathTemplateError);
+    assertThrows(() => {
+      template.build({ id: "", rest: ["x"] });
+    }, PathTemplateError);
+    assertThrows(() => {
+      template.build({ id: "alice", rest: [] });
+    }, PathTemplateError);
+    assertThrows(() => {
+      template.build({ id: "alice", rest: ["a", ".."] });
+    }, PathTemplateError);
+    assertThrows(() => {
+      parsePathTemplate(":a").build({ a: ".." });
+    }, PathTemplateError);
+
+    const untyped: PathTemplate = new PathTemplate("../:a/*b" as string);
+    const path = untyped.build({ a: "x", b: ["y", "z"] });
+    assertEquals(path, Path.relative(["x", "y", "z"], 1));
+    assertEquals(untyped.match(path), { a: "x", b: ["y", "z"] });
+  });
+});
+
+Deno.test("encodePath and decodePath", () => {
+  const paths = [
+    Path.absolute([]),
+    Path.relative([]),
+    Path.relative([], 200),
+    Path.absolute(["foo", "bar"]),
+    Path.relative(["foo"], 3),
+    Path.absolute(["a\\b", " ", "...", "ü🐙", "line\nbreak", "x".repeat(300)]),
+  ];
+
+  for (const path of paths) {
+    assert(decodePath(encodePath(path)).equals(path), path.toString());
+  }
+
+  assertEquals(encodePath("/"), new Uint8Array([0, 0]));
+  assertEquals(encodePath("../a"), new Uint8Array([2, 1, 1, 97]));
+  assertEquals(
+    encodePath(Path.relative([], 200)),
+    new Uint8Array([0xc9, 0x01, 0]),
+  );
+
+  const long = Path.relative(["a".repeat(1_000_000)]);
+  assert(decodePath(encodePath(long)).equals(long));
+
+  assertThrows(() => {
+    encodePath(Path.relative(["\ud800"]));
+  }, EncodePathError);
+
+  const invalid = [
+    [],
+    [0],
+    [0, 1],
+    [0, 1, 2, 97],
+    [0, 0, 0],
+    [0, 1, 1, 0xff],
+    [0, 1, 1, 47],
+    [0, 1, 2, 46, 46],
+    [0, 1, 0],
+    [0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x7f, 0],
+    [0x80, 0x00, 0x00],
+    [0x00, 0x81, 0x00, 0x01, 0x61],
+  ];
+
+  for (const bytes of invalid) {
+    assertThrows(() => {
+      decodePath(new Uint8Array(bytes));
+    }, DecodePathError);
+  }
+});
+
+Deno.test("file URLs", async (t) => {
+  await t.step("toFileUrl", () => {
+    assertEquals(Path.absolute([]).toFileUrl().href, "file:///");
+    assertEquals(
+      Path.absolute(["foo", "bar.txt"]).toFileUrl().href,
+      "file:///foo/bar.txt",
+    );
+    assertEquals(
+      Path.absolute(["a b", "100%", "x?y#z", "ü", "a\\b"]).toFileUrl().href,
+      "file:///a%20b/100%25/x%3Fy%23z/%C3%BC/a%5Cb",
+    );
+
+    assertThrows(() => {
+      Path.relative(["foo"]).toFileUrl();
+    }, FileUrlError);
+    assertThrows(() => {
+      Path.absolute(["\udc00"]).toFileUrl();
+    }, FileUrlError);
+  });
+
+  await t.step("fromFileUrl", () => {
+    assert(Path.fromFileUrl("file:///").equals(Path.absolute([])));
+    assert(
+      Path.fromFileUrl(new URL("file:///foo/bar%20baz/"))
+        .equals(Path.absolute(["foo", "bar baz"])),
+    );
+    assert(
+      Path.fromFileUrl("file://localhost/foo/./bar/../baz")
+        .equals(Path.absolute(["foo", "baz"])),
+    );
+    assert(Path.fromFileUrl(import.meta.url).isAbsolute());
+
+    assertThrows(() => {
+      Path.fromFileUrl("https://example.org/foo");
+    }, FileUrlError);
+    assertThrows(() => {
+      Path.fromFileUrl("file://server/share");
+    }, FileUrlError);
+    assertThrows(() => {
+      Path.fromFileUrl("file:///foo%2Fbar");
+    }, FileUrlError);
+    assertThrows(() => {
+      Path.fromFileUrl("file:///foo//bar");
+    }, FileUrlError);
+    assertThrows(() => {
+      Path.fromFileUrl("file:///%ff");
+    }, FileUrlError);
+    assertThrows(() => {
+      Path.fromFileUrl("not a url");
+    }, FileUrlError);
+  });
+
+  await t.step("round trip", () => {
+    const paths = [
+      Path.absolute([]),
+      Path.absolute(["..."]),
+      Path.absolute(["%2e%2e", "C:", "a|b", "🐙", "%", "\n\t"]),
+    ];
+
+    for (const path of paths) {
+      assert(Path.fromFileUrl(path.toFileUrl()).equals(path), path.toString());
+    }
+  });
+});
+
+Deno.test("PathMap", () => {
+  const map = new PathMap<number>([["/foo", 1], ["foo", 2]]);
+
+  assertEquals(map.size, 2);
+  assertEquals(map.get(Path.absolute(["foo"])), 1);
+  assertEquals(map.get("./foo"), 2);
+  assertEquals(map.get("../foo"), undefined);
+  assert(map.has("/bar/../foo"));
+
+  map.set(parsePath("/foo"), 3);
+  assertEquals(map.size, 2);
+  assertEquals(map.get("/foo"), 3);
+  assertEquals(
+    [...map].map(([path, value]) => [path.toString(), value]),
+    [["/foo", 3], ["foo", 2]],
+  );
+
+  assert(map.delete("foo"));
+  assert(!map.delete("foo"));
+  assertEquals([...map.keys()], [Path.absolute(["foo"])]);
+  assertEquals([...map.values()], [3]);
+
+  for (const entry of map.entries()) {
+    entry[1] = 42;
+  }
+  assertEquals(map.get("/foo"), 3);
+
+  map.clear();
+  assertEquals(map.size, 0);
+});
+
+Deno.test("PathSet", () => {
+  const set = new PathSet(["/foo", "foo", "/foo/bar/.."]);
+
+  assertEquals(set.size, 2);
+  assert(set.has(Path.absolute(["foo"])));
+  assert(set.has("foo"));
+  assert(!set.has(".."));
+
+  set.add("..");
+  assert(set.has(Path.relative([], 1)));
+  assert(set.delete("/foo"));
+  assertEquals([...set].map((path) => path.toString()), ["foo", ".."]);
+});
+
+Deno.test("PathTrie", () => {
+  const trie = new PathTrie<string>([
+    ["/", "root"],
+    ["/data", "data"],
+    ["/data/cache", "cache"],
+    ["/tmp", "tmp"],
+    ["data", "relative data"],
+  ]);
+
+  assertEquals(trie.size, 5);
+  assertEquals(trie.get("/data"), "data");
+  assertEquals(trie.get("/data/nope"), undefined);
+  assert(trie.has("data"));
+  assert(!trie.has("../data"));
+
+  assertEquals(
+    trie.longestPrefixOf("/data/cache/x/y"),
+    [Path.absolute(["data", "cache"]), "cache"],
+  );
+  assertEquals(
+    trie.longestPrefixOf("/data/other"),
+    [Path.absolute(["data"]), "data"],
+  );
+  assertEquals(trie.longestPrefixOf("/elsewhere"), [Path.absolute([]), "root"]);
+  assertEquals(trie.longestPrefixOf("data/x")?.[1], "relative data");
+  assertEquals(trie.longestPrefixOf("other"), undefined);
+  assertEquals(trie.longestPrefixOf("../data"), undefined);
+
+  assertEquals(
+    [...trie.entriesUnder("/data")].map(([, value]) => value),
+    ["data", "cache"],
+  );
+  assertEquals([...trie.entriesUnder("/nope")], []);
+  assertEquals(
+    [...trie].map(([path]) => path.toString()),
+    ["/", "/data", "/data/cache", "/tmp", "data"],
+  );
+
+  trie.set("/data", "new data");
+  assertEquals(trie.size, 5);
+  assertEquals(trie.get("/data"), "new data");
+
+  assert(trie.delete("/data/cache"));
+  assert(!trie.delete("/data/cache"));
+  assert(!trie.delete("/data/cache/deeper"));
+  assertEquals(trie.size, 4);
+  assertEquals(
+    trie.longestPrefixOf("/data/cache/x"),
+    [Path.absolute(["data"]), "new data"],
+  );
+
+  assert(trie.delete("/"));
+  assertEquals(trie.longestPrefixOf("/elsewhere"), undefined);
+
+  trie.clear();
+  assertEquals(trie.size, 0);
+  assertEquals([...trie], []);
+});
+
 const curryText = "Mix ingredients, then eat.";
 
 const testFsLiteral: MemoryFsLiteral = {
@@ -1073,4 +1722,1294 @@ Deno.test("MemoryFs.move", () => {
     const fs = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
     fs.moveSync("blog", "/", "assertive");
   });
+
+  for (const dst of ["blog", "blog/recipes/blog", "blog/new/blog"]) {
+    const fs = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+    assertThrows(() => fs.moveSync("blog", dst, "assertive"), MemoryFsError);
+    assert(fs.eq(MemoryFs.fromLiteral(testFsLiteral)));
+  }
+
+  (() => {
+    const literal = { a: { b: { b: "inner", c: "x" } } };
+    const fs = new FilesystemExt(MemoryFs.fromLiteral(literal));
+    assertThrows(() => fs.moveSync("/a/b", "/a", "assertive"), MemoryFsError);
+    assert(fs.eq(MemoryFs.fromLiteral(literal)));
+  })();
+
+  (() => {
+    const fs = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+    const snapshot = fs.fs.snapshot();
+    fs.moveSync("blog", "chess/blog");
+    fs.writeStringSync("chess/blog/recipes/curry", "burnt", "assertive");
+    assert(new FilesystemExt(snapshot).eq(MemoryFs.fromLiteral(testFsLiteral)));
+  })();
+});
+
+Deno.test("FilesystemExt.walk", async (t) => {
+  await t.step("depth-first by default", () => {
+    const fs = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+    const visited = [...fs.walkSync()].map((entry) =>
+      `${entry.kind} ${entry.path.toString()}`
+    );
+
+    assertEquals(visited, [
+      "directory blog",
+      "directory blog/posts",
+      "data blog/posts/intro",
+      "data blog/posts/deepThoughts.md",
+      "directory blog/recipes",
+      "data blog/recipes/curry",
+      "directory chess",
+      "directory chess/game1",
+      "data chess/game1/move1",
+      "directory emptyDir",
+    ]);
+  });
+
+  await t.step("breadth-first", () => {
+    const fs = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+    const visited = [...fs.walkSync("/", { order: "breadth-first" })].map((
+      entry,
+    ) => entry.path.toString());
+
+    assertEquals(visited, [
+      "/blog",
+      "/chess",
+      "/emptyDir",
+      "/blog/posts",
+      "/blog/recipes",
+      "/chess/game1",
+      "/blog/posts/intro",
+      "/blog/posts/deepThoughts.md",
+      "/blog/recipes/curry",
+      "/chess/game1/move1",
+    ]);
+  });
+
+  await t.step("maxDepth", () => {
+    const fs = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+
+    assertEquals(
+      [...fs.walkSync("blog", { maxDepth: 1 })].map((entry) =>
+        entry.path.toString()
+      ),
+      ["blog/posts", "blog/recipes"],
+    );
+    assertEquals([...fs.walkSync("blog", { maxDepth: 0 })], []);
+  });
+
+  await t.step("include, exclude and prune", () => {
+    const fs = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+
+    assertEquals(
+      [...fs.walkSync(".", { include: (entry) => entry.kind === "data" })]
+        .map((entry) => entry.path.toString()),
+      [
+        "blog/posts/intro",
+        "blog/posts/deepThoughts.md",
+        "blog/recipes/curry",
+        "chess/game1/move1",
+      ],
+    );
+
+    assertEquals(
+      [...fs.walkSync("blog", {
+        exclude: (entry) => entry.path.getFinalComponent() === "posts",
+      })].map((entry) => entry.path.toString()),
+      [
+        "blog/posts/intro",
+        "blog/posts/deepThoughts.md",
+        "blog/recipes",
+        "blog/recipes/curry",
+      ],
+    );
+
+    assertEquals(
+      [...fs.walkSync("blog", {
+        prune: (entry) => entry.path.getFinalComponent() === "posts",
+      })].map((entry) => entry.path.toString()),
+      ["blog/posts", "blog/recipes", "blog/recipes/curry"],
+    );
+  });
+
+  await t.step("async", async () => {
+    const fs = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+    const visited: string[] = [];
+
+    for await (const entry of fs.walk("chess")) {
+      visited.push(entry.path.toString());
+    }
+
+    assertEquals(visited, ["chess/game1", "chess/game1/move1"]);
+  });
+
+  await t.step("rejects non-directories", async () => {
+    const fs = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+
+    assertThrows(() => {
+      [...fs.walkSync("blog/recipes/curry")];
+    });
+    assertThrows(() => {
+      [...fs.walkSync("nope", { maxDepth: 0 })];
+    });
+    await assertRejects(async () => {
+      for await (const _entry of fs.walk("nope")) {
+        // unreachable
+      }
+    });
+  });
+});
+
+Deno.test("parseGlob", () => {
+  assertThrows(() => {
+    parseGlob("");
+  }, ParseGlobError);
+  assertThrows(() => {
+    parseGlob("foo//*");
+  }, ParseGlobError);
+  assertThrows(() => {
+    parseGlob("foo/*/");
+  }, ParseGlobError);
+  assertThrows(() => {
+    parseGlob("foo/../*");
+  }, ParseGlobError);
+  assertThrows(() => {
+    parseGlob("/../*");
+  }, ParseGlobError);
+  assertThrows(() => {
+    parseGlob("{foo,bar");
+  }, ParseGlobError);
+  assertThrows(() => {
+    parseGlob("foo}");
+  }, ParseGlobError);
+  assertThrows(() => {
+    parseGlob("[abc");
+  }, ParseGlobError);
+
+  assertEquals(
+    parseGlob("/blog/posts/*.md").getLiteralPrefixes(),
+    [Path.absolute(["blog", "posts"])],
+  );
+  assertEquals(
+    parseGlob("../{foo/bar,baz}/**").getLiteralPrefixes(),
+    [Path.relative(["foo", "bar"], 1), Path.relative(["baz"], 1)],
+  );
+  assertEquals(parseGlob("**/x").getLiteralPrefixes(), [Path.relative([])]);
+});
+
+Deno.test("Glob.matches", async (t) => {
+  await t.step("wildcards", () => {
+    assert(parseGlob("*.md").matches("foo.md"));
+    assert(parseGlob("*.md").matches(".md"));
+    assert(!parseGlob("*.md").matches("foo/bar.md"));
+    assert(!parseGlob("*.md").matches("/foo.md"));
+    assert(parseGlob("f?o").matches("foo"));
+    assert(!parseGlob("f?o").matches("fo"));
+    assert(parseGlob("/*/bar").matches("/foo/bar"));
+  });
+
+  await t.step("character classes", () => {
+    assert(parseGlob("[abc]").matches("b"));
+    assert(!parseGlob("[abc]").matches("d"));
+    assert(parseGlob("[a-c]x").matches("bx"));
+    assert(!parseGlob("[!a-c]x").matches("bx"));
+    assert(parseGlob("[^a-c]x").matches("dx"));
+    assert(parseGlob("[]]").matches("]"));
+    assert(parseGlob("[.-]").matches("-"));
+  });
+
+  await t.step("braces", () => {
+    assert(parseGlob("*.{md,txt}").matches("foo.txt"));
+    assert(!parseGlob("*.{md,txt}").matches("foo.ts"));
+    assert(parseGlob("{a/b,c}/d").matches("a/b/d"));
+    assert(parseGlob("{a/b,c}/d").matches("c/d"));
+    assert(parseGlob("{a,b{c,d}}").matches("bd"));
+    assert(parseGlob("\\{a\\}").matches("{a}"));
+  });
+
+  await t.step("globstar", () => {
+    assert(parseGlob("**").matches("."));
+    assert(parseGlob("**").matches("a/b/c"));
+    assert(!parseGlob("**").matches("../a"));
+    assert(parseGlob("a/**/z").matches("a/z"));
+    assert(parseGlob("a/**/z").matches("a/b/c/z"));
+    assert(!parseGlob("a/**/z").matches("a/b/c"));
+    assert(parseGlob("/**/*.ts").matches("/mod.ts"));
+    assert(parseGlob("../**").matches("../a"));
+  });
+});
+
+Deno.test("FilesystemExt.glob", async () => {
+  const fs = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+
+  assertEquals(
+    fs.globSync("blog/*/*").map((path) => path.toString()),
+    [
+      "blog/posts/intro",
+      "blog/posts/deepThoughts.md",
+      "blog/recipes/curry",
+    ],
+  );
+  assertEquals(
+    fs.globSync("/**/*.md").map((path) => path.toString()),
+    ["/blog/posts/deepThoughts.md"],
+  );
+  assertEquals(
+    fs.globSync("{chess,emptyDir}/**").map((path) => path.toString()),
+    ["chess", "chess/game1", "chess/game1/move1", "emptyDir"],
+  );
+  assertEquals(
+    fs.globSync("blog/recipes/curry").map((path) => path.toString()),
+    ["blog/recipes/curry"],
+  );
+  assertEquals(fs.globSync("nope/nope/*"), []);
+
+  fs.cd("blog");
+  assertEquals(
+    (await fs.glob("../chess/*/m*")).map((path) => path.toString()),
+    ["../chess/game1/move1"],
+  );
+});
+
+// Only implements the buffer-based methods of `SimpleFilesystem`, to exercise the fallbacks of `FilesystemExt`.
+class BufferOnlyFs implements SimpleFilesystem {
+  inner: MemoryFs;
+
+  constructor(inner: MemoryFs) {
+    this.inner = inner;
+  }
+
+  pwd = () => this.inner.pwd();
+  cd = (path: Pathish) => this.inner.cd(path);
+  ls = (path?: Pathish) => this.inner.ls(path);
+  lsSync = (path?: Pathish) => this.inner.lsSync(path);
+  stat = (path: Pathish) => this.inner.stat(path);
+  statSync = (path: Pathish) => this.inner.statSync(path);
+  read = (path: Pathish) => this.inner.read(path);
+  readSync = (path: Pathish) => this.inner.readSync(path);
+  write = (path: Pathish, data: Uint8Array, mode?: Mode) =>
+    this.inner.write(path, data, mode);
+  writeSync = (path: Pathish, data: Uint8Array, mode?: Mode) =>
+    this.inner.writeSync(path, data, mode);
+  mkdir = (path: Pathish, mode?: Mode) => this.inner.mkdir(path, mode);
+  mkdirSync = (path: Pathish, mode?: Mode) => this.inner.mkdirSync(path, mode);
+  remove = (path: Pathish) => this.inner.remove(path);
+  removeSync = (path: Pathish) => this.inner.removeSync(path);
+  copy = (src: Pathish, dst: Pathish, mode?: Mode) =>
+    this.inner.copy(src, dst, mode);
+  copySync = (src: Pathish, dst: Pathish, mode?: Mode) =>
+    this.inner.copySync(src, dst, mode);
+  move = (src: Pathish, dst: Pathish, mode?: Mode) =>
+    this.inner.move(src, dst, mode);
+  moveSync = (src: Pathish, dst: Pathish, mode?: Mode) =>
+    this.inner.moveSync(src, dst, mode);
+}
+
+async function collectStream(
+  stream: ReadableStream<Uint8Array>,
+): Promise<Uint8Array[]> {
+  const chunks: Uint8Array[] = [];
+
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+
+  return chunks;
+}
+
+async function writeChunks(
+  stream: WritableStream<Uint8Array>,
+  chunks: Uint8Array[],
+) {
+  const writer = stream.getWriter();
+
+  for (const chunk of chunks) {
+    await writer.write(chunk);
+  }
+
+  await writer.close();
+}
+
+Deno.test("streams", async (t) => {
+  const big = new Uint8Array(200_000).map((_, i) => i % 251);
+
+  for (
+    const [name, makeFs] of [
+      ["MemoryFs", (inner: MemoryFs) => new FilesystemExt(inner)],
+      [
+        "fallback",
+        (inner: MemoryFs) => new FilesystemExt(new BufferOnlyFs(inner)),
+      ],
+    ] as const
+  ) {
+    await t.step(`${name} readStream`, async () => {
+      const inner = MemoryFs.fromLiteral(testFsLiteral);
+      inner.writeSync("big", big);
+      const fs = makeFs(inner);
+
+      const chunks = await collectStream(fs.readStream("big"));
+      assert(chunks.length > 1);
+      const concatenated = new Uint8Array(
+        chunks.reduce((sum, chunk) => sum + chunk.length, 0),
+      );
+      let offset = 0;
+      for (const chunk of chunks) {
+        concatenated.set(chunk, offset);
+        offset += chunk.length;
+      }
+      assertEquals(concatenated, big);
+
+      assertEquals(
+        await collectStream(fs.readStream("blog/recipes/curry")),
+        [new TextEncoder().encode(curryText)],
+      );
+
+      inner.writeSync("empty", new Uint8Array());
+      assertEquals(await collectStream(fs.readStream("empty")), []);
+
+      await assertRejects(() => collectStream(fs.readStream("blog")));
+      await assertRejects(() => collectStream(fs.readStream("nope")));
+    });
+
+    await t.step(`${name} writeStream`, async () => {
+      const inner = MemoryFs.fromLiteral(testFsLiteral);
+      const fs = makeFs(inner);
+
+      const chunk = new Uint8Array([1, 2, 3]);
+      const stream = fs.writeStream("new/dir/file");
+      const writer = stream.getWriter();
+      await writer.write(chunk);
+      // Reusing a chunk after writing it must not affect the file.
+      chunk[0] = 42;
+      await writer.write(chunk);
+      await writer.write(big);
+      await writer.close();
+
+      const expected = new Uint8Array(6 + big.length);
+      expected.set([1, 2, 3, 42, 2, 3]);
+      expected.set(big, 6);
+      assertEquals(inner.readSync("new/dir/file"), expected);
+
+      await assertRejects(() =>
+        writeChunks(fs.writeStream("blog/recipes/curry"), [chunk])
+      );
+      if (name === "MemoryFs") {
+        const writer = fs.writeStream("blog/recipes/curry").getWriter();
+        await assertRejects(() => writer.write(chunk), MemoryFsError);
+      }
+      await writeChunks(fs.writeStream("blog/recipes/curry", "placid"), [
+        chunk,
+      ]);
+      assertEquals(
+        inner.readSync("blog/recipes/curry"),
+        new TextEncoder().encode(curryText),
+      );
+      await writeChunks(fs.writeStream("blog/recipes/curry", "assertive"), [
+        chunk,
+      ]);
+      assertEquals(inner.readSync("blog/recipes/curry"), chunk);
+    });
+  }
+});
+
+Deno.test("readRange and append", async (t) => {
+  const encoder = new TextEncoder();
+
+  for (
+    const [name, makeFs] of [
+      ["MemoryFs", (inner: MemoryFs) => new FilesystemExt(inner)],
+      [
+        "fallback",
+        (inner: MemoryFs) => new FilesystemExt(new BufferOnlyFs(inner)),
+      ],
+    ] as const
+  ) {
+    await t.step(`${name} readRange`, async () => {
+      const fs = makeFs(MemoryFs.fromLiteral(testFsLiteral));
+
+      assertEquals(
+        fs.readRangeSync("blog/recipes/curry", 0, 3),
+        encoder.encode("Mix"),
+      );
+      assertEquals(
+        await fs.readRange("blog/recipes/curry", 17, 1000),
+        encoder.encode("then eat."),
+      );
+      assertEquals(
+        fs.readRangeSync("blog/recipes/curry", 1000, 10),
+        new Uint8Array(),
+      );
+      assertEquals(
+        fs.readRangeSync("blog/recipes/curry", 4, 0),
+        new Uint8Array(),
+      );
+
+      assertThrows(() => {
+        fs.readRangeSync("blog/recipes/curry", -1, 3);
+      });
+      assertThrows(() => {
+        fs.readRangeSync("blog/recipes/curry", 0, 1.5);
+      });
+      assertThrows(() => {
+        fs.readRangeSync("blog", 0, 3);
+      });
+      await assertRejects(() => fs.readRange("blog/recipes/nope", 0, 3));
+    });
+
+    await t.step(`${name} append`, async () => {
+      const fs = makeFs(MemoryFs.fromLiteral(testFsLiteral));
+
+      fs.appendSync("blog/recipes/curry", encoder.encode(" Yum!"));
+      assertEquals(
+        fs.readStringSync("blog/recipes/curry"),
+        `${curryText} Yum!`,
+      );
+      await fs.append("blog/recipes/curry", encoder.encode("!"), "placid");
+      assertEquals(
+        fs.readStringSync("blog/recipes/curry"),
+        `${curryText} Yum!!`,
+      );
+
+      fs.appendSync("new/dir/log", encoder.encode("a"));
+      await fs.append("new/dir/log", encoder.encode("b"));
+      assertEquals(fs.readStringSync("new/dir/log"), "ab");
+
+      assertThrows(() => {
+        fs.appendSync("chess", encoder.encode("x"));
+      });
+      fs.appendSync("chess", encoder.encode("x"), "placid");
+      assertEquals(fs.statSync("chess"), "directory");
+      fs.appendSync("chess", encoder.encode("x"), "assertive");
+      assertEquals(fs.readStringSync("chess"), "x");
+
+      assertThrows(() => {
+        fs.appendSync("/", encoder.encode("x"), "assertive");
+      });
+    });
+  }
+});
+
+Deno.test("MemoryFs.onChange", async (t) => {
+  function record(
+    fs: MemoryFs,
+    path: string,
+    recursive: boolean,
+  ): string[] {
+    const events: string[] = [];
+
+    fs.onChange(path, (event) => {
+      events.push(
+        event.kind === "moved"
+          ? `moved ${event.from} ${event.path}`
+          : `${event.kind} ${event.path}`,
+      );
+    }, { recursive });
+
+    return events;
+  }
+
+  await t.step("write, mkdir, append, remove", () => {
+    const fs = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+    const events = record(fs.fs, "/", true);
+
+    fs.writeStringSync("blog/recipes/pancakes", pancakeText);
+    fs.writeStringSync("blog/recipes/pancakes", curryText, "assertive");
+    fs.writeStringSync("blog/recipes/pancakes", curryText, "placid");
+    fs.mkdirSync("new/deeply/nested");
+    fs.appendSync("blog/recipes/pancakes", new Uint8Array([1]));
+    fs.appendSync("x/y/log", new Uint8Array([1]));
+    fs.mkdirSync("chess", "assertive");
+    fs.removeSync("blog");
+    fs.removeSync("nope");
+
+    assertEquals(events, [
+      "created /blog/recipes/pancakes",
+      "modified /blog/recipes/pancakes",
+      "created /new",
+      "created /new/deeply",
+      "created /new/deeply/nested",
+      "modified /blog/recipes/pancakes",
+      "created /x",
+      "created /x/y",
+      "created /x/y/log",
+      "removed /chess",
+      "created /chess",
+      "removed /blog",
+    ]);
+  });
+
+  await t.step("copy and move", () => {
+    const fs = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+    const events = record(fs.fs, "/", true);
+
+    fs.copySync("blog/recipes", "new/recipes");
+    fs.copySync("blog/recipes/curry", "blog/posts", "assertive");
+    fs.moveSync("chess", "games/chess");
+    fs.moveSync("emptyDir", "blog/posts", "assertive");
+    fs.moveSync("games", "blog/recipes", "placid");
+
+    assertEquals(events, [
+      "created /new",
+      "created /new/recipes",
+      "removed /blog/posts",
+      "created /blog/posts",
+      "created /games",
+      "moved /chess /games/chess",
+      "removed /blog/posts",
+      "moved /emptyDir /blog/posts",
+      "removed /games",
+    ]);
+  });
+
+  await t.step("filtering", () => {
+    const fs = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+    const shallow = record(fs.fs, "/blog", false);
+    const deep = record(fs.fs, "blog", true);
+    const file = record(fs.fs, "/blog/recipes/curry", false);
+
+    fs.writeStringSync("blog/intro", "hi");
+    fs.writeStringSync("blog/recipes/curry", "hot", "assertive");
+    fs.writeStringSync("chess/game2", "d4");
+    fs.moveSync("blog/recipes", "recipes");
+
+    assertEquals(shallow, [
+      "created /blog/intro",
+      "moved /blog/recipes /recipes",
+    ]);
+    assertEquals(deep, [
+      "created /blog/intro",
+      "modified /blog/recipes/curry",
+      "moved /blog/recipes /recipes",
+    ]);
+    assertEquals(file, [
+      "modified /blog/recipes/curry",
+      "moved /blog/recipes /recipes",
+    ]);
+  });
+
+  await t.step("unsubscribing", () => {
+    const fs = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+    const events: MemoryFsEvent[] = [];
+    const unsubscribe = fs.fs.onChange("/", (event) => events.push(event));
+
+    fs.writeStringSync("a", "");
+    unsubscribe();
+    fs.writeStringSync("b", "");
+
+    assertEquals(events, [{ kind: "created", path: Path.absolute(["a"]) }]);
+  });
+});
+
+Deno.test("MemoryFs.watch", async () => {
+  const fs = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+  const watcher = fs.fs.watch("blog", { recursive: true });
+
+  fs.writeStringSync("blog/a", "");
+  fs.writeStringSync("chess/b", "");
+
+  const received: string[] = [];
+  const done = (async () => {
+    for await (const event of watcher) {
+      received.push(`${event.kind} ${event.path}`);
+
+      if (received.length === 2) {
+        break;
+      }
+    }
+  })();
+
+  await Promise.resolve();
+  fs.removeSync("blog/recipes");
+  await done;
+
+  assertEquals(received, ["created /blog/a", "removed /blog/recipes"]);
+  assertEquals(await watcher.next(), { done: true, value: undefined });
+
+  const closing = fs.fs.watch("/");
+  const pending = closing.next();
+  closing.close();
+  assertEquals(await pending, { done: true, value: undefined });
+});
+
+Deno.test("MemoryFs.transaction", async (t) => {
+  await t.step("commit", async () => {
+    const fs = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+    const events: MemoryFsEvent[] = [];
+    fs.fs.onChange("/", (event) => events.push(event), { recursive: true });
+
+    const result = await fs.fs.transaction(async () => {
+      await fs.writeString("blog/intro", "hi");
+      await fs.move("chess", "games");
+      assertEquals(events, []);
+      return 17;
+    });
+
+    assertEquals(result, 17);
+    assertEquals(fs.readStringSync("blog/intro"), "hi");
+    assertEquals(fs.statSync("chess"), "nothing");
+    assertEquals(events.map((event) => event.kind), ["created", "moved"]);
+  });
+
+  await t.step("rollback", async () => {
+    const fs = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+    const events: MemoryFsEvent[] = [];
+    fs.fs.onChange("/", (event) => events.push(event), { recursive: true });
+
+    await assertRejects(() =>
+      fs.fs.transaction(async () => {
+        await fs.writeString("blog/recipes/curry", "burnt", "assertive");
+        await fs.remove("chess");
+        fs.cd("blog");
+        await fs.copy("recipes", "posts"); // timid, so this rejects
+      })
+    );
+
+    assertEquals(fs.pwd().toString(), "/");
+    assert(fs.eq(MemoryFs.fromLiteral(testFsLiteral)));
+    assertEquals(events, []);
+  });
+
+  await t.step("nested", () => {
+    const fs = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+    const events: MemoryFsEvent[] = [];
+    fs.fs.onChange("/", (event) => events.push(event));
+
+    fs.fs.transactionSync(() => {
+      fs.writeStringSync("a", "");
+
+      assertThrows(() =>
+        fs.fs.transactionSync(() => {
+          fs.writeStringSync("b", "");
+          fs.removeSync("/");
+        })
+      );
+    });
+
+    assertEquals(fs.lsSync("/").has("a"), true);
+    assertEquals(fs.lsSync("/").has("b"), false);
+    assertEquals(events, [{ kind: "created", path: Path.absolute(["a"]) }]);
+  });
+
+  await t.step("overlapping", async () => {
+    const fs = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+    const events: MemoryFsEvent[] = [];
+    fs.fs.onChange("/", (event) => events.push(event));
+
+    let finishSecond = () => {};
+    const second = new Promise<void>((resolve) => finishSecond = resolve);
+
+    const outer = fs.fs.transaction(async () => {
+      await fs.writeString("a", "");
+      await second;
+    });
+    const failing = fs.fs.transaction(async () => {
+      await fs.writeString("b", "");
+      throw new Error("oops");
+    });
+
+    await assertRejects(() => failing, Error, "oops");
+    assertEquals(events, []);
+    finishSecond();
+    await outer;
+
+    assertEquals(fs.statSync("a"), "data");
+    assertEquals(events.map((event) => event.path.toString()), ["/a"]);
+  });
+
+  await t.step("overlapping rollbacks", async () => {
+    const fs = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+    const events: MemoryFsEvent[] = [];
+    fs.fs.onChange("/", (event) => events.push(event));
+
+    let failFirst = () => {};
+    const first = new Promise<void>((resolve) => failFirst = resolve);
+    let failSecond = () => {};
+    const second = new Promise<void>((resolve) => failSecond = resolve);
+
+    const t1 = fs.fs.transaction(async () => {
+      await fs.writeString("fromT1", "");
+      await first;
+      throw new Error("t1");
+    });
+    const t2 = fs.fs.transaction(async () => {
+      await fs.writeString("fromT2", "");
+      await second;
+      throw new Error("t2");
+    });
+
+    failFirst();
+    await assertRejects(() => t1, Error, "t1");
+    assertEquals(fs.statSync("fromT1"), "nothing");
+    assertEquals(fs.statSync("fromT2"), "nothing");
+
+    await fs.writeString("between", "");
+    failSecond();
+    await assertRejects(() => t2, Error, "t2");
+
+    assertEquals(fs.statSync("fromT1"), "nothing");
+    assertEquals(fs.statSync("between"), "nothing");
+    assert(fs.eq(MemoryFs.fromLiteral(testFsLiteral)));
+    assertEquals(events, []);
+  });
+});
+
+Deno.test("MemoryFs snapshots", async (t) => {
+  await t.step("snapshot and restore", () => {
+    const fs = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+    fs.cd("blog");
+    const snapshot = fs.fs.snapshot();
+
+    assertEquals(snapshot.pwd().toString(), "/blog");
+    fs.writeStringSync("recipes/curry", "burnt", "assertive");
+    fs.removeSync("/chess");
+    fs.cd("/");
+
+    const snapshotExt = new FilesystemExt(snapshot);
+    assertEquals(snapshotExt.readStringSync("recipes/curry"), curryText);
+    assertEquals(snapshotExt.statSync("/chess"), "directory");
+
+    snapshotExt.writeStringSync("posts/new", "");
+    assertEquals(fs.statSync("blog/posts/new"), "nothing");
+
+    fs.fs.restore(snapshot);
+    assertEquals(fs.pwd().toString(), "/blog");
+    assertEquals(fs.readStringSync("recipes/curry"), curryText);
+    assertEquals(fs.statSync("posts/new"), "data");
+
+    fs.removeSync("posts");
+    assertEquals(snapshotExt.statSync("posts/new"), "data");
+  });
+
+  await t.step("policy mismatch", () => {
+    const fs = new MemoryFs();
+    const portable = new MemoryFs({ componentPolicy: "portable" });
+
+    assertThrows(() => fs.restore(portable), MemoryFsError);
+    fs.restore(fs.snapshot());
+  });
+
+  await t.step("copies are independent", () => {
+    const fs = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+
+    fs.copySync("blog", "blog2");
+    fs.writeStringSync("blog2/recipes/curry", "burnt", "assertive");
+    fs.writeStringSync("blog/recipes/pancakes", pancakeText);
+
+    assertEquals(fs.readStringSync("blog/recipes/curry"), curryText);
+    assertEquals(fs.statSync("blog2/recipes/pancakes"), "nothing");
+
+    fs.copySync("blog", "blog/recipes/inner");
+    assertEquals(fs.statSync("blog/recipes/inner/recipes/curry"), "data");
+    assertEquals(fs.statSync("blog/recipes/inner/recipes/inner"), "nothing");
+  });
+});
+
+Deno.test("OverlayFs", async (t) => {
+  function overlay(): [FilesystemExt<OverlayFs>, MemoryFs] {
+    const upper = new MemoryFs();
+    const fs = new FilesystemExt(
+      new OverlayFs(MemoryFs.fromLiteral(testFsLiteral), upper),
+    );
+    return [fs, upper];
+  }
+
+  await t.step("reading falls through", () => {
+    const [fs] = overlay();
+
+    assert(fs.eq(MemoryFs.fromLiteral(testFsLiteral)));
+    assertEquals(fs.readStringSync("blog/recipes/curry"), curryText);
+    assertEquals(fs.statSync("blog/posts"), "directory");
+    assertThrows(() => fs.statSync("nope/nope"), OverlayFsError);
+    assertThrows(() => fs.readSync("blog"), OverlayFsError);
+
+    fs.cd("blog");
+    assertEquals(fs.lsSync(), new Set(["posts", "recipes"]));
+  });
+
+  await t.step("writing goes to the upper layer", () => {
+    const [fs, upper] = overlay();
+
+    fs.writeStringSync("blog/recipes/pancakes", pancakeText);
+    fs.writeStringSync("blog/recipes/curry", "burnt", "assertive");
+    fs.writeStringSync("chess/game1/move1", "e4", "placid");
+    fs.mkdirSync("new/dir");
+    assertThrows(
+      () => fs.writeStringSync("blog/posts/intro", ""),
+      OverlayFsError,
+    );
+    assertThrows(() => fs.mkdirSync("blog/recipes/curry/x"), OverlayFsError);
+    assertThrows(() => fs.writeStringSync("/", "", "assertive"));
+
+    assertEquals(
+      fs.lsSync("blog/recipes"),
+      new Set(["curry", "pancakes"]),
+    );
+    assertEquals(fs.readStringSync("blog/recipes/curry"), "burnt");
+    assertEquals(fs.statSync("new/dir"), "directory");
+
+    assert(
+      new FilesystemExt(fs.fs.lower).eq(MemoryFs.fromLiteral(testFsLiteral)),
+    );
+    assert(
+      new FilesystemExt(upper).eq(MemoryFs.fromLiteral({
+        blog: { recipes: { curry: "burnt", pancakes: pancakeText } },
+        new: { dir: {} },
+      })),
+    );
+    assertEquals(fs.fs.getWhiteouts().map((p) => p.toString()), [
+      "/blog/recipes/curry",
+    ]);
+  });
+
+  await t.step("whiteouts", () => {
+    const [fs, upper] = overlay();
+
+    fs.removeSync("blog/posts/intro");
+    fs.removeSync("chess");
+    fs.removeSync("nope");
+    assertEquals(fs.lsSync("blog/posts"), new Set(["deepThoughts.md"]));
+    assertEquals(fs.lsSync("/"), new Set(["blog", "emptyDir"]));
+    assertEquals(fs.statSync("chess"), "nothing");
+    assertThrows(() => fs.statSync("chess/game1"), OverlayFsError);
+
+    fs.writeStringSync("chess/game2/move1", "d4");
+    assertEquals(fs.lsSync("chess"), new Set(["game2"]));
+
+    fs.mkdirSync("blog", "assertive");
+    assertEquals(fs.lsSync("blog"), new Set());
+    assertThrows(() => fs.removeSync("/"), OverlayFsError);
+
+    assertEquals(fs.fs.getWhiteouts().map((p) => p.toString()), [
+      "/blog",
+      "/chess",
+    ]);
+    assert(
+      new FilesystemExt(upper).eq(MemoryFs.fromLiteral({
+        blog: {},
+        chess: { game2: { move1: "d4" } },
+      })),
+    );
+  });
+
+  await t.step("copying and moving", () => {
+    const [fs] = overlay();
+
+    fs.copySync("blog", "blog/recipes/inner");
+    assertEquals(
+      fs.readStringSync("blog/recipes/inner/recipes/curry"),
+      curryText,
+    );
+    assertEquals(fs.statSync("blog/recipes/inner/recipes/inner"), "nothing");
+
+    fs.moveSync("chess", "emptyDir/chess");
+    assertEquals(fs.statSync("chess"), "nothing");
+    assertEquals(fs.readStringSync("emptyDir/chess/game1/move1"), "e4");
+
+    assertThrows(() => fs.moveSync("blog", "blog/x"), OverlayFsError);
+    assertThrows(
+      () => fs.moveSync("blog/recipes", "blog", "assertive"),
+      OverlayFsError,
+    );
+    assertEquals(fs.readStringSync("blog/recipes/curry"), curryText);
+    assertThrows(() => fs.copySync("blog", "emptyDir"), OverlayFsError);
+    assertThrows(() => fs.copySync("blog", "/", "assertive"), OverlayFsError);
+
+    fs.copySync("blog/recipes/curry", "emptyDir", "assertive");
+    assertEquals(fs.readStringSync("emptyDir"), curryText);
+
+    assertEquals(fs.fs.getWhiteouts().map((p) => p.toString()), [
+      "/chess",
+      "/emptyDir",
+    ]);
+    assert(
+      new FilesystemExt(fs.fs.lower).eq(MemoryFs.fromLiteral(testFsLiteral)),
+    );
+  });
+});
+
+Deno.test("MountFs", async (t) => {
+  function mounted(): [FilesystemExt<MountFs>, MemoryFs, MemoryFs] {
+    const tmp = new MemoryFs();
+    const data = MemoryFs.fromLiteral(testFsLiteral);
+    const fs = new FilesystemExt(
+      new MountFs([["/tmp", tmp], ["/mnt/data", data]]),
+    );
+    return [fs, tmp, data];
+  }
+
+  await t.step("routing", () => {
+    const [fs, tmp] = mounted();
+
+    assertEquals(fs.lsSync("/"), new Set(["tmp", "mnt"]));
+    assertEquals(fs.lsSync("/mnt"), new Set(["data"]));
+    assertEquals(
+      fs.lsSync("/mnt/data"),
+      new Set(["blog", "chess", "emptyDir"]),
+    );
+    assertEquals(fs.statSync("/mnt"), "directory");
+    assertEquals(fs.statSync("/nope"), "nothing");
+    assertThrows(() => fs.statSync("/nope/nope"), MountFsError);
+    assertEquals(fs.readStringSync("/mnt/data/blog/recipes/curry"), curryText);
+
+    fs.cd("/tmp");
+    fs.writeStringSync("scratch", "hi");
+    assertEquals(new FilesystemExt(tmp).readStringSync("/scratch"), "hi");
+    assertThrows(() => fs.writeStringSync("/nope", ""), MountFsError);
+    assertThrows(() => fs.mkdirSync("/mnt"), MountFsError);
+    fs.mkdirSync("/mnt", "placid");
+    assertThrows(() => fs.mkdirSync("/mnt", "assertive"), MountFsError);
+    assertThrows(() => fs.removeSync("/tmp"), MountFsError);
+    assertThrows(() => fs.fs.mount("/tmp", new MemoryFs()), MountFsError);
+  });
+
+  await t.step("nested mounts", () => {
+    const [fs] = mounted();
+    fs.fs.mount("/mnt/data/blog/recipes", MemoryFs.fromLiteral({ a: "" }));
+
+    assertEquals(fs.lsSync("/mnt/data/blog/recipes"), new Set(["a"]));
+    assertEquals(fs.lsSync("/mnt/data/blog"), new Set(["posts", "recipes"]));
+    assertThrows(() => fs.removeSync("/mnt/data/blog"), MountFsError);
+
+    assertEquals(
+      fs.fs.getMounts().map(([path]) => path.toString()),
+      ["/mnt/data", "/mnt/data/blog/recipes", "/tmp"],
+    );
+    fs.fs.unmount("/mnt/data/blog/recipes");
+    assertEquals(
+      fs.lsSync("/mnt/data/blog/recipes"),
+      new Set(["curry"]),
+    );
+    assertEquals(fs.fs.unmount("/nope"), undefined);
+  });
+
+  await t.step("copying and moving", () => {
+    const [fs, tmp, data] = mounted();
+
+    fs.copySync("/mnt/data/blog", "/tmp/blog");
+    assertEquals(fs.readStringSync("/tmp/blog/recipes/curry"), curryText);
+
+    fs.moveSync("/mnt/data/chess", "/tmp/chess");
+    assertEquals(fs.statSync("/mnt/data/chess"), "nothing");
+    assertEquals(
+      new FilesystemExt(tmp).readStringSync("/chess/game1/move1"),
+      "e4",
+    );
+
+    fs.moveSync("/tmp/chess", "/tmp/games");
+    assertEquals(fs.lsSync("/tmp"), new Set(["blog", "games"]));
+
+    assertThrows(
+      () => fs.copySync("/tmp/blog", "/mnt/data/blog"),
+      MountFsError,
+    );
+    fs.copySync("/tmp/games", "/mnt/data/blog", "assertive");
+    assertEquals(
+      new FilesystemExt(data).lsSync("/blog"),
+      new Set(["game1"]),
+    );
+
+    assertThrows(() => fs.moveSync("/tmp", "/tmp2"), MountFsError);
+    assertThrows(
+      () => fs.moveSync("/mnt/data/blog/game1", "/mnt", "assertive"),
+      MountFsError,
+    );
+    assertThrows(
+      () => fs.moveSync("/tmp/games/game1", "/tmp/games", "assertive"),
+      MountFsError,
+    );
+    assertEquals(fs.statSync("/tmp/games/game1"), "directory");
+    assertThrows(
+      () => fs.copySync("/tmp/games", "/mnt", "assertive"),
+      MountFsError,
+    );
+    fs.copySync("/mnt", "/tmp/mnt");
+    assertEquals(fs.statSync("/tmp/mnt/data/blog/game1"), "directory");
+  });
+});
+
+Deno.test("FilesystemExt.subtree", async () => {
+  const fs = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+  fs.cd("blog");
+  const sub = new FilesystemExt(fs.subtree("recipes"));
+
+  assertEquals(sub.pwd().toString(), "/");
+  assertEquals(sub.lsSync("/"), new Set(["curry"]));
+  assertEquals(sub.readStringSync("/curry"), curryText);
+  assertEquals(await sub.readString("curry"), curryText);
+
+  sub.mkdirSync("desserts");
+  sub.cd("desserts");
+  sub.writeStringSync("pancakes", pancakeText);
+  assertEquals(sub.pwd().toString(), "/desserts");
+  assertEquals(fs.readStringSync("recipes/desserts/pancakes"), pancakeText);
+  assertEquals(
+    sub.readRangeSync("/desserts/pancakes", 0, 3),
+    fs.readRangeSync("recipes/desserts/pancakes", 0, 3),
+  );
+
+  sub.cd("..");
+  assertEquals(sub.pwd().toString(), "/");
+  assertThrows(() => sub.cd(".."), PathEscapeError);
+  assertThrows(() => sub.readSync("../posts/intro"), PathEscapeError);
+  await assertRejects(() => sub.read("../posts/intro"), PathEscapeError);
+  await assertRejects(() => sub.ls(".."), PathEscapeError);
+  await assertRejects(() => sub.copy("../posts", "posts"), PathEscapeError);
+  await assertRejects(() => sub.remove("/"), SubtreeFsError);
+  await assertRejects(() => sub.move("/", "/x"), SubtreeFsError);
+  assertThrows(() => sub.statSync("/../posts"));
+  assertThrows(() => sub.removeSync("/"), SubtreeFsError);
+  assertThrows(() => sub.writeStringSync("/", "", "assertive"), SubtreeFsError);
+  assertThrows(
+    () => sub.appendSync("/", new Uint8Array([1]), "assertive"),
+    SubtreeFsError,
+  );
+  await assertRejects(
+    () => sub.append("/", new Uint8Array([1]), "assertive"),
+    SubtreeFsError,
+  );
+  const rootWriter = sub.writeStream("/", "assertive").getWriter();
+  await assertRejects(
+    () => rootWriter.write(new Uint8Array([1])),
+    SubtreeFsError,
+  );
+  assertEquals(sub.statSync("/"), "directory");
+  assertThrows(() => sub.moveSync("/", "/x"), SubtreeFsError);
+  assertThrows(() => sub.copySync("curry", "/", "assertive"), SubtreeFsError);
+  assertThrows(() => sub.cd("curry"), SubtreeFsError);
+
+  sub.mkdirSync("/", "assertive");
+  assertEquals(fs.lsSync("recipes"), new Set());
+  assertEquals(fs.lsSync("/"), new Set(["blog", "chess", "emptyDir"]));
+
+  assertThrows(() => fs.subtree("nope"), SubtreeFsError);
+  assertThrows(() => fs.subtree("posts/intro"), SubtreeFsError);
+});
+
+Deno.test("ReadOnlyFs", async () => {
+  const inner = MemoryFs.fromLiteral(testFsLiteral);
+  const fs = new FilesystemExt(new ReadOnlyFs(inner));
+
+  fs.cd("blog");
+  assertEquals(inner.pwd().toString(), "/blog");
+  assertEquals(fs.lsSync(), new Set(["posts", "recipes"]));
+  assertEquals(await fs.stat("recipes"), "directory");
+  assertEquals(fs.readStringSync("recipes/curry"), curryText);
+  assertEquals(
+    new TextDecoder().decode(await fs.readRange("recipes/curry", 0, 3)),
+    "Mix",
+  );
+
+  const error = assertThrows(
+    () => fs.writeStringSync("new", ""),
+    ReadOnlyFsError,
+  );
+  assertEquals(error.operation, "write");
+  assertEquals(error.path, "new");
+
+  assertThrows(() => fs.mkdirSync("new"), ReadOnlyFsError);
+  assertThrows(() => fs.removeSync("recipes"), ReadOnlyFsError);
+  assertThrows(() => fs.copySync("recipes", "new"), ReadOnlyFsError);
+  assertThrows(() => fs.moveSync("recipes", "new"), ReadOnlyFsError);
+  assertThrows(() => fs.appendSync("recipes/curry", new Uint8Array([1])));
+  await assertRejects(() => fs.write("new", new Uint8Array()), ReadOnlyFsError);
+  await assertRejects(() => fs.mkdir("new"), ReadOnlyFsError);
+  await assertRejects(() => fs.remove("recipes"), ReadOnlyFsError);
+  await assertRejects(() => fs.copy("recipes", "new"), ReadOnlyFsError);
+  await assertRejects(() => fs.move("recipes", "new"), ReadOnlyFsError);
+
+  const readOnly = new ReadOnlyFs(inner);
+  assertEquals(
+    readOnly.readRangeSync!("recipes/curry", 0, 3),
+    inner.readRangeSync("recipes/curry", 0, 3),
+  );
+  assertEquals(
+    await readOnly.readRange!("recipes/curry", 3, 2),
+    inner.readRangeSync("recipes/curry", 3, 2),
+  );
+  assertEquals(
+    await collectStream(readOnly.readStream!("recipes/curry")),
+    [new TextEncoder().encode(curryText)],
+  );
+
+  fs.cd("/");
+  assert(fs.eq(MemoryFs.fromLiteral(testFsLiteral)));
+});
+
+Deno.test("FilesystemExt.diff", async (t) => {
+  function render(changes: FileChange[]): string[] {
+    return changes.map((change) => {
+      switch (change.kind) {
+        case "added":
+        case "removed":
+          return `${change.kind} ${change.fileKind} ${change.path}`;
+        case "modified":
+          return `modified ${change.path}`;
+        case "kindChanged":
+          return `kindChanged ${change.from} ${change.to} ${change.path}`;
+      }
+    });
+  }
+
+  const fs = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+  const other = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+  other.writeStringSync("blog/recipes/curry", "burnt", "assertive");
+  other.writeStringSync("blog/recipes/pancakes", pancakeText);
+  other.removeSync("chess");
+  other.writeStringSync("emptyDir", "", "assertive");
+  other.mkdirSync("zzz/nested");
+  other.writeStringSync("aaa", "");
+
+  const expected = [
+    "added data aaa",
+    "modified blog/recipes/curry",
+    "added data blog/recipes/pancakes",
+    "removed directory chess",
+    "kindChanged directory data emptyDir",
+    "added directory zzz",
+  ];
+
+  await t.step("sync", () => {
+    assertEquals(fs.diffSync(fs.fs), []);
+    assertEquals(render(fs.diffSync(other.fs)), expected);
+    assertEquals(
+      render(fs.diffSync(other.fs, {
+        path: "blog/recipes",
+        otherPath: "blog/recipes",
+      })),
+      ["modified curry", "added data pancakes"],
+    );
+    assertEquals(
+      render(fs.diffSync(other.fs, { path: "chess", otherPath: "emptyDir" })),
+      ["kindChanged directory data ."],
+    );
+    assertThrows(() => fs.diffSync(other.fs, { path: "nope/nope" }));
+  });
+
+  await t.step("async", async () => {
+    assertEquals(await fs.diff(fs.fs), []);
+    assertEquals(render(await fs.diff(other.fs)), expected);
+
+    other.cd("blog");
+    assertEquals(
+      render(await fs.diff(other.fs, { path: "blog/posts" })),
+      [
+        "removed data deepThoughts.md",
+        "removed data intro",
+        "added directory posts",
+        "added directory recipes",
+      ],
+    );
+  });
+});
+
+Deno.test("patches", async (t) => {
+  function changed(): FilesystemExt<MemoryFs> {
+    const other = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+    other.writeStringSync("blog/recipes/curry", "burnt", "assertive");
+    other.writeStringSync("blog/recipes/pancakes", pancakeText);
+    other.removeSync("chess");
+    other.writeStringSync("emptyDir", "", "assertive");
+    other.writeSync("zzz/nested/binary", new Uint8Array([0, 255, 128]));
+    return other;
+  }
+
+  await t.step("create and apply", async () => {
+    const other = changed();
+    const patch = createPatchSync(
+      MemoryFs.fromLiteral(testFsLiteral),
+      other.fs,
+    );
+
+    assertEquals(
+      patch,
+      await createPatch(MemoryFs.fromLiteral(testFsLiteral), other.fs),
+    );
+    assertEquals(patch.map((entry) => `${entry.kind} ${entry.path}`), [
+      "replace blog/recipes/curry",
+      "add blog/recipes/pancakes",
+      "remove chess",
+      "replace emptyDir",
+      "add zzz",
+    ]);
+
+    const serialised: Patch = JSON.parse(JSON.stringify(patch));
+
+    const fs = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+    assertEquals(applyPatchSync(fs.fs, serialised), []);
+    assert(fs.eq(other.fs));
+
+    const fs2 = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+    assertEquals(await applyPatch(fs2.fs, serialised), []);
+    assert(fs2.eq(other.fs));
+
+    const fs3 = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+    fs3.cd("blog");
+    const subPatch = createPatchSync(fs3.fs, other.fs, {
+      path: "recipes",
+      otherPath: "blog/recipes",
+    });
+    applyPatchSync(
+      fs3.fs,
+      subPatch.map((entry) => ({
+        ...entry,
+        path: `recipes/${entry.path}`,
+      })),
+    );
+    assertEquals(fs3.lsSync("recipes"), new Set(["curry", "pancakes"]));
+  });
+
+  await t.step("conflicts", async () => {
+    const patch: Patch = [
+      { kind: "add", path: "blog", file: { directory: {} } },
+      { kind: "replace", path: "nope", file: { data: "aGk=" } },
+      { kind: "add", path: "blog/recipes/curry/x", file: { data: "" } },
+      { kind: "remove", path: "gone" },
+      { kind: "add", path: "../x", file: { data: "" } },
+      { kind: "remove", path: "../outside" },
+      { kind: "add", path: "/abs", file: { data: "" } },
+      { kind: "add", path: "new", file: { data: "aGk=" } },
+      { kind: "add", path: "fresh/deep/file", file: { data: "aGk=" } },
+    ];
+
+    const timid = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+    const conflicts = applyPatchSync(timid.fs, patch);
+    assertEquals(conflicts.map((c) => [c.entry.path, c.reason]), [
+      ["blog", "exists"],
+      ["nope", "missing"],
+      ["blog/recipes/curry/x", "failed"],
+      ["../x", "failed"],
+      ["../outside", "failed"],
+      ["/abs", "failed"],
+    ]);
+    for (const conflict of conflicts.slice(3)) {
+      assert(
+        conflict.reason === "failed" &&
+          conflict.error instanceof PathEscapeError,
+      );
+    }
+    assertEquals(timid.readStringSync("new"), "hi");
+    assertEquals(timid.readStringSync("fresh/deep/file"), "hi");
+    assertEquals(timid.statSync("/abs"), "nothing");
+    assertEquals(timid.statSync("nope"), "nothing");
+    assertEquals(timid.statSync("blog/posts"), "directory");
+
+    const placid = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+    assertEquals(
+      (await applyPatch(placid.fs, patch, "placid")).map((c) => c.reason),
+      ["failed", "failed", "failed", "failed"],
+    );
+    assertEquals(placid.readStringSync("fresh/deep/file"), "hi");
+    assertEquals(placid.statSync("blog/posts"), "directory");
+    assertEquals(placid.statSync("nope"), "nothing");
+
+    const assertive = new FilesystemExt(MemoryFs.fromLiteral(testFsLiteral));
+    assertEquals(
+      applyPatchSync(assertive.fs, patch, "assertive").map((c) => c.entry.path),
+      ["../x", "../outside", "/abs"],
+    );
+    // Replacing `blog` with an empty directory removed `curry`, so its missing parent directories were created.
+    assertEquals(assertive.lsSync("blog"), new Set(["recipes"]));
+    assertEquals(assertive.lsSync("blog/recipes/curry"), new Set(["x"]));
+    assertEquals(assertive.readStringSync("nope"), "hi");
+  });
 });